@@ -0,0 +1,64 @@
+import { createInterface } from "readline/promises";
+import { Writable } from "stream";
+import { isEncryptionEnabled } from "../src/lib/encryption";
+import { rotateEncryptionKey } from "../src/lib/keyRotation";
+
+// Passphrases can be passed as CURRENT_PASSPHRASE and NEW_PASSPHRASE for
+// scripted use; otherwise they are asked for on the terminal without being
+// echoed.
+async function main() {
+  let muted = false;
+  const output = new Writable({
+    write(chunk, encoding, callback) {
+      if (!muted) {
+        process.stdout.write(chunk, encoding);
+      }
+      callback();
+    },
+  });
+  const prompt = createInterface({
+    input: process.stdin,
+    output,
+    terminal: Boolean(process.stdin.isTTY),
+  });
+  const askHidden = async (question: string) => {
+    process.stdout.write(question);
+    muted = true;
+    try {
+      return await prompt.question("");
+    } finally {
+      muted = false;
+      process.stdout.write("\n");
+    }
+  };
+  try {
+    const enabled = isEncryptionEnabled();
+    const currentPassphrase = enabled
+      ? (process.env.CURRENT_PASSPHRASE ?? (await askHidden("Current passphrase: ")))
+      : null;
+    let newPassphrase = process.env.NEW_PASSPHRASE;
+    if (!newPassphrase) {
+      newPassphrase = await askHidden("New passphrase: ");
+      if ((await askHidden("Repeat new passphrase: ")) !== newPassphrase) {
+        throw new Error("The passphrases do not match.");
+      }
+    }
+    if (newPassphrase.length < 8) {
+      throw new Error("Use a passphrase of at least 8 characters.");
+    }
+    const { files, records } = await rotateEncryptionKey({
+      currentPassphrase,
+      newPassphrase,
+    });
+    console.log(
+      `${enabled ? "Rotated" : "Encrypted"} ${files} files and ${records} database records.`,
+    );
+  } finally {
+    prompt.close();
+  }
+}
+
+main().catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { getRequestAccount, ownsChange, ownsProfile } from "@/lib/auth";
+import {
+  getAddress,
+  getAddressHistory,
+  getChange,
+  restoreAddressVersion,
+} from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const account = await getRequestAccount(request);
+  if (!account) {
+    return NextResponse.json({ error: "Please sign in." }, { status: 401 });
+  }
+  // The address may be gone, so ownership is checked per change.
+  const changes = [];
+  for (const change of await getAddressHistory(id)) {
+    if (await ownsChange(account, change)) {
+      changes.push(change);
+    }
+  }
+  return NextResponse.json({ changes });
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const account = await getRequestAccount(request);
+  if (!account) {
+    return NextResponse.json({ error: "Please sign in." }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json(
+      { error: "Request body must be a JSON object." },
+      { status: 400 },
+    );
+  }
+  const changeId = typeof body.changeId === "string" ? body.changeId : "";
+  if (!changeId) {
+    return NextResponse.json({ error: "changeId is required." }, { status: 400 });
+  }
+
+  const current = await getAddress(id);
+  const change = await getChange(changeId);
+  const address =
+    current &&
+    change &&
+    (await ownsProfile(account, current.profileId)) &&
+    (await ownsChange(account, change))
+      ? await restoreAddressVersion(id, changeId)
+      : null;
+  if (!address) {
+    return NextResponse.json(
+      { error: "No version of this address was found for that change." },
+      { status: 404 },
+    );
+  }
+
+  return NextResponse.json({ address });
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { findOwnedAddress } from "@/lib/auth";
+import { getProfile, linkAddress, unlinkAddress } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const found = await findOwnedAddress(request, id);
+  if (found instanceof NextResponse) {
+    return found;
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json(
+      { error: "Request body must be a JSON object." },
+      { status: 400 },
+    );
+  }
+  const profileId = body.profileId;
+  if (typeof profileId !== "string" || !profileId) {
+    return NextResponse.json(
+      { error: "Missing profileId to link with." },
+      { status: 400 },
+    );
+  }
+
+  // Linking is only between people on the same account.
+  const [owner, target] = await Promise.all([
+    getProfile(found.profileId),
+    getProfile(profileId),
+  ]);
+  const address =
+    owner && target?.accountId === owner.accountId
+      ? await linkAddress(id, profileId)
+      : null;
+  if (!address) {
+    return NextResponse.json(
+      { error: "Address or profile not found." },
+      { status: 404 },
+    );
+  }
+
+  return NextResponse.json({ address });
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const found = await findOwnedAddress(request, id);
+  if (found instanceof NextResponse) {
+    return found;
+  }
+
+  const address = await unlinkAddress(id);
+  if (!address) {
+    return NextResponse.json({ error: "Address not found." }, { status: 404 });
+  }
+  return NextResponse.json({ address });
+}
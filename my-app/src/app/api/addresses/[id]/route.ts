@@ -1,37 +1,153 @@
 import { NextResponse } from "next/server";
-import { deleteAddress, updateAddress } from "@/lib/storage";
+import {
+  fieldErrorMessage,
+  mergeAddressPatch,
+  validateAddressInput,
+} from "@/lib/addressValidation";
+import { findOwnedAddress } from "@/lib/auth";
+import { etagMatches, toEtag } from "@/lib/etag";
+import {
+  type Address,
+  ConflictError,
+  deleteAddress,
+  updateAddress,
+} from "@/lib/storage";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 type RouteContext = {
-  params: {
+  params: Promise<{
     id: string;
-  };
+  }>;
 };
 
+const conflictMessage =
+  "This address was changed elsewhere. Review the latest version and try again.";
+
+function addressResponse(address: Address) {
+  return NextResponse.json(
+    { address },
+    { headers: { ETag: toEtag(address.updatedAt) } },
+  );
+}
+
+function conflictResponse(address: Address) {
+  return NextResponse.json(
+    { error: conflictMessage, address },
+    { status: 409, headers: { ETag: toEtag(address.updatedAt) } },
+  );
+}
+
+/**
+ * Writes validated fields, guarded by the version the caller last saw so a
+ * concurrent edit surfaces as a 409 instead of being overwritten.
+ */
+async function saveAddress(
+  id: string,
+  value: Parameters<typeof updateAddress>[1],
+  expectedUpdatedAt: string,
+) {
+  try {
+    const updated = await updateAddress(id, value, { expectedUpdatedAt });
+    if (!updated) {
+      return NextResponse.json({ error: "Address not found." }, { status: 404 });
+    }
+    return addressResponse(updated);
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      return conflictResponse(error.current as Address);
+    }
+    throw error;
+  }
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const address = await findOwnedAddress(request, id);
+  if (address instanceof NextResponse) {
+    return address;
+  }
+  return addressResponse(address);
+}
+
 export async function PUT(request: Request, { params }: RouteContext) {
-  const body = await request.json();
-  const updates = {
-    line1: body?.line1,
-    line2: body?.line2,
-    town: body?.town,
-    county: body?.county,
-    postcode: body?.postcode,
-    country: body?.country,
-    startDate: body?.startDate,
-    endDate: body?.endDate || undefined,
-  };
-
-  const updated = await updateAddress(params.id, updates);
-  if (!updated) {
-    return NextResponse.json({ error: "Address not found." }, { status: 404 });
-  }
-
-  return NextResponse.json({ address: updated });
+  const { id } = await params;
+  const existing = await findOwnedAddress(request, id);
+  if (existing instanceof NextResponse) {
+    return existing;
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json(
+      { error: "Request body must be a JSON object." },
+      { status: 400 },
+    );
+  }
+  const result = validateAddressInput(body);
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: fieldErrorMessage, fields: result.errors },
+      { status: 400 },
+    );
+  }
+
+  const ifMatch = request.headers.get("if-match");
+  if (!ifMatch) {
+    const updated = await updateAddress(id, result.value);
+    if (!updated) {
+      return NextResponse.json({ error: "Address not found." }, { status: 404 });
+    }
+    return addressResponse(updated);
+  }
+
+  if (!etagMatches(ifMatch, existing.updatedAt)) {
+    return conflictResponse(existing);
+  }
+  return saveAddress(id, result.value, existing.updatedAt);
 }
 
-export async function DELETE(_request: Request, { params }: RouteContext) {
-  await deleteAddress(params.id);
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const existing = await findOwnedAddress(request, id);
+  if (existing instanceof NextResponse) {
+    return existing;
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json(
+      { error: "Request body must be a JSON object." },
+      { status: 400 },
+    );
+  }
+
+  const ifMatch = request.headers.get("if-match");
+  if (ifMatch && !etagMatches(ifMatch, existing.updatedAt)) {
+    return conflictResponse(existing);
+  }
+
+  const result = validateAddressInput(mergeAddressPatch(existing, body));
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: fieldErrorMessage, fields: result.errors },
+      { status: 400 },
+    );
+  }
+
+  // The merge was based on `existing`, so the write must not land on top of
+  // a newer version even when the client sent no If-Match.
+  return saveAddress(id, result.value, existing.updatedAt);
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const existing = await findOwnedAddress(request, id);
+  if (existing instanceof NextResponse) {
+    return existing;
+  }
+
+  await deleteAddress(id);
   return NextResponse.json({ ok: true });
 }
@@ -1,38 +1,63 @@
 import { NextResponse } from "next/server";
-import { createAddress, readStore, sortAddresses } from "@/lib/storage";
+import { getRequestAccount } from "@/lib/auth";
+import { fieldErrorMessage, validateAddressInput } from "@/lib/addressValidation";
+import {
+  createAddress,
+  getProfileData,
+  resolveProfile,
+  sortAddresses,
+} from "@/lib/storage";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-export async function GET() {
-  const store = await readStore();
+export async function GET(request: Request) {
+  const account = await getRequestAccount(request);
+  if (!account) {
+    return NextResponse.json({ error: "Please sign in." }, { status: 401 });
+  }
+  const url = new URL(request.url);
+  const profile = await resolveProfile(url.searchParams.get("profileId"), account.id);
+  if (!profile) {
+    return NextResponse.json({ error: "Profile not found." }, { status: 404 });
+  }
+  const { addresses, documents, gapAnnotations } = await getProfileData(profile.id);
   return NextResponse.json({
-    addresses: sortAddresses(store.addresses),
-    documents: store.documents,
+    profile,
+    addresses: sortAddresses(addresses),
+    documents,
+    gapAnnotations,
   });
 }
 
 export async function POST(request: Request) {
-  const body = await request.json();
-  const { line1, line2, town, county, postcode, country, startDate, endDate } =
-    body ?? {};
-
-  if (!line1 || !town || !postcode || !country || !startDate) {
+  const account = await getRequestAccount(request);
+  if (!account) {
+    return NextResponse.json({ error: "Please sign in." }, { status: 401 });
+  }
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json(
+      { error: "Request body must be a JSON object." },
+      { status: 400 },
+    );
+  }
+  const result = validateAddressInput(body);
+  if (!result.ok) {
     return NextResponse.json(
-      { error: "Missing required address fields." },
+      { error: fieldErrorMessage, fields: result.errors },
       { status: 400 },
     );
   }
 
+  const profile = await resolveProfile(body.profileId, account.id);
+  if (!profile) {
+    return NextResponse.json({ error: "Profile not found." }, { status: 404 });
+  }
+
   const address = await createAddress({
-    line1,
-    line2,
-    town,
-    county,
-    postcode,
-    country,
-    startDate,
-    endDate: endDate || undefined,
+    profileId: profile.id,
+    ...result.value,
   });
 
   return NextResponse.json({ address });
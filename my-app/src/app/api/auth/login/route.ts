@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { authenticate, createSession, toPublicAccount } from "@/lib/auth";
+import { sessionCookieName, sessionCookieOptions } from "@/lib/session";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => ({}));
+  const { username, password } = body ?? {};
+  if (typeof username !== "string" || typeof password !== "string") {
+    return NextResponse.json(
+      { error: "Username and password are required." },
+      { status: 400 },
+    );
+  }
+
+  const account = await authenticate(username, password);
+  if (!account) {
+    return NextResponse.json(
+      { error: "Incorrect username or password." },
+      { status: 401 },
+    );
+  }
+
+  const response = NextResponse.json({ account: toPublicAccount(account) });
+  response.cookies.set(
+    sessionCookieName,
+    await createSession(account.id),
+    sessionCookieOptions(request),
+  );
+  return response;
+}
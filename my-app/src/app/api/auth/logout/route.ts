@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { deleteSession } from "@/lib/auth";
+import { readSessionToken, sessionCookieName } from "@/lib/session";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  const token = readSessionToken(request);
+  if (token) {
+    await deleteSession(token);
+  }
+  const response = NextResponse.json({ ok: true });
+  response.cookies.delete(sessionCookieName);
+  return response;
+}
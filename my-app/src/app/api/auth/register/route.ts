@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import {
+  canRegister,
+  createAccount,
+  createSession,
+  toPublicAccount,
+  validateCredentials,
+} from "@/lib/auth";
+import { sessionCookieName, sessionCookieOptions } from "@/lib/session";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  if (!(await canRegister())) {
+    return NextResponse.json(
+      { error: "New accounts can't be created here." },
+      { status: 403 },
+    );
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const { username, password } = body ?? {};
+  const problem = validateCredentials(username, password);
+  if (problem) {
+    return NextResponse.json({ error: problem }, { status: 400 });
+  }
+
+  const account = await createAccount(username, password);
+  if (!account) {
+    return NextResponse.json(
+      { error: "That username is already taken." },
+      { status: 409 },
+    );
+  }
+
+  const response = NextResponse.json({ account: toPublicAccount(account) });
+  response.cookies.set(
+    sessionCookieName,
+    await createSession(account.id),
+    sessionCookieOptions(request),
+  );
+  return response;
+}
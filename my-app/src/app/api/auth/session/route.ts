@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { canRegister, getRequestAccount, toPublicAccount } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const account = await getRequestAccount(request);
+  return NextResponse.json({
+    account: account ? toPublicAccount(account) : null,
+    canRegister: await canRegister(),
+  });
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { getRequestAccount, ownsChange } from "@/lib/auth";
+import {
+  ConflictError,
+  IrreversibleChangeError,
+  getChange,
+  revertChange,
+} from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const account = await getRequestAccount(request);
+  if (!account) {
+    return NextResponse.json({ error: "Please sign in." }, { status: 401 });
+  }
+  const existing = await getChange(id);
+  if (!existing || !(await ownsChange(account, existing))) {
+    return NextResponse.json({ error: "Change not found." }, { status: 404 });
+  }
+
+  try {
+    const change = await revertChange(id);
+    if (!change) {
+      return NextResponse.json({ error: "Change not found." }, { status: 404 });
+    }
+    return NextResponse.json({ reverted: change });
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      return NextResponse.json(
+        {
+          error: "This change can't be undone because the data has changed since.",
+          current: error.current,
+        },
+        { status: 409 },
+      );
+    }
+    if (error instanceof IrreversibleChangeError) {
+      return NextResponse.json(
+        { error: "Permanently deleted items can't be brought back." },
+        { status: 409 },
+      );
+    }
+    throw error;
+  }
+}
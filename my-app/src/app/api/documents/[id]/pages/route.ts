@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { findOwnedDocument } from "@/lib/auth";
+import { parsePageSelection } from "@/lib/documents";
+import { readDocumentPageCount } from "@/lib/pageRender";
+import { setDocumentPages } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+/** The document's page count and its page selection; null means every page. */
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const document = await findOwnedDocument(request, id);
+  if (document instanceof NextResponse) {
+    return document;
+  }
+  const pageCount = await readDocumentPageCount(document);
+  if (pageCount === null) {
+    return NextResponse.json({ error: "Document file could not be read." }, { status: 422 });
+  }
+  return NextResponse.json({ pageCount, pages: document.pages ?? null });
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const found = await findOwnedDocument(request, id);
+  if (found instanceof NextResponse) {
+    return found;
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json(
+      { error: "Request body must be a JSON object." },
+      { status: 400 },
+    );
+  }
+  const pageCount = await readDocumentPageCount(found);
+  if (pageCount === null) {
+    return NextResponse.json({ error: "Document file could not be read." }, { status: 422 });
+  }
+  const parsed = parsePageSelection(body.pages, pageCount);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const document = await setDocumentPages(id, parsed.pages);
+  if (!document) {
+    return NextResponse.json({ error: "Document not found." }, { status: 404 });
+  }
+  return NextResponse.json({ document });
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { findOwnedDocument } from "@/lib/auth";
+import { countDocumentPages, renderDocumentPage } from "@/lib/pageRender";
+import { readUploadFile } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+    page: string;
+  }>;
+};
+
+const maxPreviewWidth = 1000;
+const minPreviewWidth = 100;
+
+/**
+ * A PNG preview of one page as uploaded, for drawing redactions on or
+ * picking pages. `width` asks for a smaller image, in pixels.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id, page } = await params;
+  const document = await findOwnedDocument(request, id);
+  if (document instanceof NextResponse) {
+    return document;
+  }
+
+  let fileBuffer: Buffer;
+  try {
+    fileBuffer = await readUploadFile(document);
+  } catch {
+    return NextResponse.json({ error: "Document file missing." }, { status: 404 });
+  }
+  const pageNumber = Number(page);
+  const requestedWidth = Number(new URL(request.url).searchParams.get("width"));
+  const previewWidth = requestedWidth
+    ? Math.min(Math.max(requestedWidth, minPreviewWidth), maxPreviewWidth)
+    : maxPreviewWidth;
+  try {
+    const pageCount = await countDocumentPages(document, fileBuffer);
+    if (!Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > pageCount) {
+      return NextResponse.json({ error: "Page not found." }, { status: 404 });
+    }
+    const preview = await renderDocumentPage(document, fileBuffer, pageNumber, {
+      scale: 2,
+      maxWidth: previewWidth,
+    });
+    return new NextResponse(new Uint8Array(preview.data), {
+      headers: { "Content-Type": preview.mimeType, "Cache-Control": "private, no-store" },
+    });
+  } catch {
+    return NextResponse.json({ error: "Document file could not be read." }, { status: 422 });
+  }
+}
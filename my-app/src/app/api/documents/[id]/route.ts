@@ -1,29 +1,35 @@
 import { NextResponse } from "next/server";
-import { promises as fs } from "fs";
-import { deleteDocument, getDocumentById, getUploadPath } from "@/lib/storage";
+import { findOwnedDocument } from "@/lib/auth";
+import { parseDocumentDetails } from "@/lib/documents";
+import {
+  deleteDocument,
+  readUploadFile,
+  updateDocument,
+} from "@/lib/storage";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 type RouteContext = {
-  params: {
+  params: Promise<{
     id: string;
-  };
+  }>;
 };
 
-export async function GET(_request: Request, { params }: RouteContext) {
-  const document = await getDocumentById(params.id);
-  if (!document) {
-    return NextResponse.json({ error: "Document not found." }, { status: 404 });
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const document = await findOwnedDocument(request, id);
+  if (document instanceof NextResponse) {
+    return document;
   }
 
   let fileBuffer: Buffer;
   try {
-    fileBuffer = await fs.readFile(getUploadPath(document));
+    fileBuffer = await readUploadFile(document);
   } catch {
     return NextResponse.json({ error: "Document file missing." }, { status: 404 });
   }
-  return new NextResponse(fileBuffer, {
+  return new NextResponse(new Uint8Array(fileBuffer), {
     headers: {
       "Content-Type": document.mimeType,
       "Content-Disposition": `attachment; filename="${document.originalName}"`,
@@ -31,8 +37,41 @@ export async function GET(_request: Request, { params }: RouteContext) {
   });
 }
 
-export async function DELETE(_request: Request, { params }: RouteContext) {
-  const document = await deleteDocument(params.id);
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const found = await findOwnedDocument(request, id);
+  if (found instanceof NextResponse) {
+    return found;
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json(
+      { error: "Request body must be a JSON object." },
+      { status: 400 },
+    );
+  }
+
+  const parsed = parseDocumentDetails(body);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const document = await updateDocument(id, parsed.details);
+  if (!document) {
+    return NextResponse.json({ error: "Document not found." }, { status: 404 });
+  }
+  return NextResponse.json({ document });
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const found = await findOwnedDocument(request, id);
+  if (found instanceof NextResponse) {
+    return found;
+  }
+
+  const document = await deleteDocument(id);
   if (!document) {
     return NextResponse.json({ error: "Document not found." }, { status: 404 });
   }
@@ -1,16 +1,16 @@
 import { NextResponse } from "next/server";
-import { createDocument, readStore } from "@/lib/storage";
+import { getRequestAccount, ownsProfile } from "@/lib/auth";
+import { allowedDocumentTypes, parseDocumentDetails } from "@/lib/documents";
+import { createDocument, getAddress } from "@/lib/storage";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-const allowedTypes = new Set([
-  "application/pdf",
-  "image/png",
-  "image/jpeg",
-]);
-
 export async function POST(request: Request) {
+  const account = await getRequestAccount(request);
+  if (!account) {
+    return NextResponse.json({ error: "Please sign in." }, { status: 401 });
+  }
   const formData = await request.formData();
   const addressId = formData.get("addressId");
   const file = formData.get("file");
@@ -22,16 +22,26 @@ export async function POST(request: Request) {
     );
   }
 
-  if (!allowedTypes.has(file.type)) {
+  if (!allowedDocumentTypes.has(file.type)) {
     return NextResponse.json(
       { error: "Only PDF, PNG, and JPG files are allowed." },
       { status: 400 },
     );
   }
 
-  const store = await readStore();
-  const addressExists = store.addresses.some((address) => address.id === addressId);
-  if (!addressExists) {
+  const parsed = parseDocumentDetails(
+    Object.fromEntries(
+      ["category", "issueDate", "issuer"]
+        .filter((field) => formData.has(field))
+        .map((field) => [field, formData.get(field)]),
+    ),
+  );
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const address = await getAddress(addressId);
+  if (!address || !(await ownsProfile(account, address.profileId))) {
     return NextResponse.json(
       { error: "Address not found for upload." },
       { status: 404 },
@@ -39,11 +49,13 @@ export async function POST(request: Request) {
   }
 
   const document = await createDocument({
+    profileId: address.profileId,
     addressId,
     originalName: file.name,
     mimeType: file.type,
     size: file.size,
     data: await file.arrayBuffer(),
+    details: parsed.details,
   });
 
   return NextResponse.json({ document });
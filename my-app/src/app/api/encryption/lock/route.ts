@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { getRequestAccount } from "@/lib/auth";
+import { getEncryptionStatus, isUnlocked, lock } from "@/lib/encryption";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  if (isUnlocked() && !(await getRequestAccount(request))) {
+    return NextResponse.json({ error: "Please sign in." }, { status: 401 });
+  }
+  lock();
+  return NextResponse.json(getEncryptionStatus());
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { getEncryptionStatus } from "@/lib/encryption";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json(getEncryptionStatus());
+}
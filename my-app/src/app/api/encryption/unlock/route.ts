@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { getEncryptionStatus, isEncryptionEnabled, unlock } from "@/lib/encryption";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json(
+      { error: "Request body must be a JSON object." },
+      { status: 400 },
+    );
+  }
+  const passphrase = typeof body.passphrase === "string" ? body.passphrase : "";
+  if (!isEncryptionEnabled()) {
+    return NextResponse.json(
+      { error: "Encryption is not set up. Run npm run rotate-key first." },
+      { status: 409 },
+    );
+  }
+  if (!passphrase || !(await unlock(passphrase))) {
+    return NextResponse.json({ error: "Incorrect passphrase." }, { status: 401 });
+  }
+  return NextResponse.json(getEncryptionStatus());
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { getRequestAccount, ownsProfile } from "@/lib/auth";
+import { parseExportTemplateFields, readTemplateImage } from "@/lib/exportTemplates";
+import { deleteExportTemplate, getExportTemplate, saveExportTemplate } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+// Someone else's template answers exactly like a missing one.
+async function findOwnedTemplate(request: Request, id: string) {
+  const account = await getRequestAccount(request);
+  if (!account) {
+    return NextResponse.json({ error: "Please sign in." }, { status: 401 });
+  }
+  const template = await getExportTemplate(id);
+  if (!template || !(await ownsProfile(account, template.profileId))) {
+    return NextResponse.json({ error: "Template not found." }, { status: 404 });
+  }
+  return template;
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const existing = await findOwnedTemplate(request, id);
+  if (existing instanceof NextResponse) {
+    return existing;
+  }
+
+  const formData = await request.formData();
+  const parsed = parseExportTemplateFields(Object.fromEntries(formData));
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const logo = await readTemplateImage(formData, "logo");
+  if ("error" in logo) {
+    return NextResponse.json({ error: logo.error }, { status: 400 });
+  }
+  const signature = await readTemplateImage(formData, "signature");
+  if ("error" in signature) {
+    return NextResponse.json({ error: signature.error }, { status: 400 });
+  }
+
+  const template = await saveExportTemplate({
+    id,
+    profileId: existing.profileId,
+    fields: parsed.fields,
+    logo: logo.image,
+    signature: signature.image,
+  });
+  if (!template) {
+    return NextResponse.json({ error: "Template not found." }, { status: 404 });
+  }
+  return NextResponse.json({ template });
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const existing = await findOwnedTemplate(request, id);
+  if (existing instanceof NextResponse) {
+    return existing;
+  }
+
+  await deleteExportTemplate(id);
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { getRequestAccount } from "@/lib/auth";
+import { parseExportTemplateFields, readTemplateImage } from "@/lib/exportTemplates";
+import { listExportTemplates, resolveProfile, saveExportTemplate } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const account = await getRequestAccount(request);
+  if (!account) {
+    return NextResponse.json({ error: "Please sign in." }, { status: 401 });
+  }
+  const url = new URL(request.url);
+  const profile = await resolveProfile(url.searchParams.get("profileId"), account.id);
+  if (!profile) {
+    return NextResponse.json({ error: "Profile not found." }, { status: 404 });
+  }
+  const templates = await listExportTemplates(profile.id);
+  return NextResponse.json({ templates });
+}
+
+export async function POST(request: Request) {
+  const account = await getRequestAccount(request);
+  if (!account) {
+    return NextResponse.json({ error: "Please sign in." }, { status: 401 });
+  }
+  const formData = await request.formData();
+  const parsed = parseExportTemplateFields(Object.fromEntries(formData));
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const logo = await readTemplateImage(formData, "logo");
+  if ("error" in logo) {
+    return NextResponse.json({ error: logo.error }, { status: 400 });
+  }
+  const signature = await readTemplateImage(formData, "signature");
+  if ("error" in signature) {
+    return NextResponse.json({ error: signature.error }, { status: 400 });
+  }
+
+  const profileId = formData.get("profileId");
+  const profile = await resolveProfile(
+    typeof profileId === "string" ? profileId : null,
+    account.id,
+  );
+  if (!profile) {
+    return NextResponse.json({ error: "Profile not found." }, { status: 404 });
+  }
+
+  const template = await saveExportTemplate({
+    profileId: profile.id,
+    fields: parsed.fields,
+    logo: logo.image,
+    signature: signature.image,
+  });
+  return NextResponse.json({ template }, { status: 201 });
+}
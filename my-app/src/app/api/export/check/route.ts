@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { getRequestAccount } from "@/lib/auth";
+import { getExportData, resolveExportRange } from "@/lib/export";
+import { checkExportDocuments } from "@/lib/exportWarnings";
+import { resolveProfile } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Lists the documents an export with the same parameters would leave out. */
+export async function GET(request: Request) {
+  const account = await getRequestAccount(request);
+  if (!account) {
+    return NextResponse.json({ error: "Please sign in." }, { status: 401 });
+  }
+  const url = new URL(request.url);
+  const resolved = resolveExportRange(url.searchParams);
+  if ("error" in resolved) {
+    return NextResponse.json({ error: resolved.error }, { status: 400 });
+  }
+  const format = url.searchParams.get("format") ?? "pdf";
+  if (format !== "pdf" && format !== "zip") {
+    return NextResponse.json({ error: "Format must be pdf or zip." }, { status: 400 });
+  }
+
+  const profile = await resolveProfile(url.searchParams.get("profileId"), account.id);
+  if (!profile) {
+    return NextResponse.json({ error: "Profile not found." }, { status: 404 });
+  }
+  const { documents } = await getExportData(
+    profile.id,
+    resolved.range.start,
+    resolved.range.end,
+  );
+
+  return NextResponse.json({ warnings: await checkExportDocuments(documents, format) });
+}
@@ -1,62 +1,82 @@
 import { NextResponse } from "next/server";
-import { buildExportPdf } from "@/lib/pdf";
-import { getLastThreeYearsRange } from "@/lib/gaps";
-import { readStore, sortAddresses } from "@/lib/storage";
+import { getRequestAccount } from "@/lib/auth";
+import { formatWarningsHeader } from "@/lib/exportWarnings";
+import { buildExportPdf, buildExportPdfWithin } from "@/lib/pdf";
+import {
+  getExportData,
+  parseImageOptions,
+  parseWatermark,
+  resolveExportRange,
+} from "@/lib/export";
+import { getExportTemplate, resolveProfile } from "@/lib/storage";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-function parseDate(value: string) {
-  const [year, month, day] = value.split("-").map((part) => Number(part));
-  if (!year || !month || !day) {
-    return null;
-  }
-  return new Date(Date.UTC(year, month - 1, day));
-}
-
-function addressOverlapsRange(
-  startDate: string,
-  endDate: string | undefined,
-  rangeStart: string,
-  rangeEnd: string,
-) {
-  const addressStart = parseDate(startDate);
-  const addressEnd = parseDate(endDate ?? rangeEnd);
-  const start = parseDate(rangeStart);
-  const end = parseDate(rangeEnd);
-  if (!addressStart || !addressEnd || !start || !end) {
-    return false;
-  }
-  return addressStart <= end && addressEnd >= start;
-}
-
 export async function GET(request: Request) {
+  const account = await getRequestAccount(request);
+  if (!account) {
+    return NextResponse.json({ error: "Please sign in." }, { status: 401 });
+  }
   const url = new URL(request.url);
-  const range = getLastThreeYearsRange();
-  const start = url.searchParams.get("start") ?? range.start;
-  const end = url.searchParams.get("end") ?? range.end;
+  const resolved = resolveExportRange(url.searchParams);
+  if ("error" in resolved) {
+    return NextResponse.json({ error: resolved.error }, { status: 400 });
+  }
+  const { start, end } = resolved.range;
 
-  const store = await readStore();
-  const filteredAddresses = sortAddresses(
-    store.addresses.filter((address) =>
-      addressOverlapsRange(address.startDate, address.endDate, start, end),
-    ),
-  );
-  const addressIds = new Set(filteredAddresses.map((address) => address.id));
-  const filteredDocuments = store.documents.filter((doc) =>
-    addressIds.has(doc.addressId),
+  const profile = await resolveProfile(url.searchParams.get("profileId"), account.id);
+  if (!profile) {
+    return NextResponse.json({ error: "Profile not found." }, { status: 404 });
+  }
+  const templateId = url.searchParams.get("templateId");
+  const template = templateId ? await getExportTemplate(templateId) : null;
+  if (templateId && template?.profileId !== profile.id) {
+    return NextResponse.json({ error: "Template not found." }, { status: 404 });
+  }
+  const watermark = parseWatermark(url.searchParams.get("watermark"));
+  if ("error" in watermark) {
+    return NextResponse.json({ error: watermark.error }, { status: 400 });
+  }
+  const imageOptions = parseImageOptions(url.searchParams);
+  if ("error" in imageOptions) {
+    return NextResponse.json({ error: imageOptions.error }, { status: 400 });
+  }
+  const { addresses, documents, gapAnnotations } = await getExportData(
+    profile.id,
+    start,
+    end,
   );
 
-  const pdfBytes = await buildExportPdf({
-    addresses: filteredAddresses,
-    documents: filteredDocuments,
+  const options = {
+    profile,
+    addresses,
+    documents,
+    gapAnnotations,
     range: { start, end },
-  });
+    template,
+    watermark: watermark.watermark,
+    imageQuality: imageOptions.imageQuality,
+  };
+  const {
+    bytes: pdfBytes,
+    imageQuality,
+    warnings,
+  } = imageOptions.maxBytes
+    ? await buildExportPdfWithin(options, imageOptions.maxBytes)
+    : {
+        ...(await buildExportPdf(options)),
+        imageQuality: options.imageQuality ?? "original",
+      };
 
-  return new NextResponse(pdfBytes, {
+  return new NextResponse(new Uint8Array(pdfBytes), {
     headers: {
       "Content-Type": "application/pdf",
       "Content-Disposition": 'attachment; filename="address-history.pdf"',
+      // Lets the page report the final size and whether images were reduced.
+      "X-Export-Size": String(pdfBytes.byteLength),
+      "X-Image-Quality": imageQuality,
+      "X-Export-Warnings": formatWarningsHeader(warnings),
     },
   });
 }
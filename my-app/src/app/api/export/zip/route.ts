@@ -1,77 +1,45 @@
 import { NextResponse } from "next/server";
-import JSZip from "jszip";
-import { promises as fs } from "fs";
-import { getLastThreeYearsRange } from "@/lib/gaps";
-import { getUploadPath, readStore, sortAddresses } from "@/lib/storage";
+import { getRequestAccount } from "@/lib/auth";
+import { buildExportZip, getExportData, resolveExportRange } from "@/lib/export";
+import { formatWarningsHeader } from "@/lib/exportWarnings";
+import { resolveProfile } from "@/lib/storage";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-function parseDate(value: string) {
-  const [year, month, day] = value.split("-").map((part) => Number(part));
-  if (!year || !month || !day) {
-    return null;
-  }
-  return new Date(Date.UTC(year, month - 1, day));
-}
-
-function addressOverlapsRange(
-  startDate: string,
-  endDate: string | undefined,
-  rangeStart: string,
-  rangeEnd: string,
-) {
-  const addressStart = parseDate(startDate);
-  const addressEnd = parseDate(endDate ?? rangeEnd);
-  const start = parseDate(rangeStart);
-  const end = parseDate(rangeEnd);
-  if (!addressStart || !addressEnd || !start || !end) {
-    return false;
-  }
-  return addressStart <= end && addressEnd >= start;
-}
-
-function sanitizeFilename(name: string) {
-  return name.replace(/[^a-zA-Z0-9._-]/g, "_");
-}
-
 export async function GET(request: Request) {
+  const account = await getRequestAccount(request);
+  if (!account) {
+    return NextResponse.json({ error: "Please sign in." }, { status: 401 });
+  }
   const url = new URL(request.url);
-  const range = getLastThreeYearsRange();
-  const start = url.searchParams.get("start") ?? range.start;
-  const end = url.searchParams.get("end") ?? range.end;
-
-  const store = await readStore();
-  const filteredAddresses = sortAddresses(
-    store.addresses.filter((address) =>
-      addressOverlapsRange(address.startDate, address.endDate, start, end),
-    ),
-  );
-  const addressIds = new Set(filteredAddresses.map((address) => address.id));
-  const filteredDocuments = store.documents.filter((doc) =>
-    addressIds.has(doc.addressId),
-  );
-
-  const zip = new JSZip();
-  zip.file(
-    "addresses.json",
-    JSON.stringify({ addresses: filteredAddresses, documents: filteredDocuments }, null, 2),
-  );
+  const resolved = resolveExportRange(url.searchParams);
+  if ("error" in resolved) {
+    return NextResponse.json({ error: resolved.error }, { status: 400 });
+  }
+  const { start, end } = resolved.range;
 
-  const docsFolder = zip.folder("documents");
-  if (docsFolder) {
-    for (const doc of filteredDocuments) {
-      const buffer = await fs.readFile(getUploadPath(doc));
-      const safeName = sanitizeFilename(doc.originalName);
-      docsFolder.file(`${doc.id}-${safeName}`, buffer);
-    }
+  const profile = await resolveProfile(url.searchParams.get("profileId"), account.id);
+  if (!profile) {
+    return NextResponse.json({ error: "Profile not found." }, { status: 404 });
   }
+  const { addresses, documents, gapAnnotations } = await getExportData(
+    profile.id,
+    start,
+    end,
+  );
 
-  const output = await zip.generateAsync({ type: "nodebuffer" });
-  return new NextResponse(output, {
+  const { output, warnings } = await buildExportZip({
+    profile,
+    addresses,
+    documents,
+    gapAnnotations,
+  });
+  return new NextResponse(new Uint8Array(output), {
     headers: {
       "Content-Type": "application/zip",
       "Content-Disposition": 'attachment; filename="address-history.zip"',
+      "X-Export-Warnings": formatWarningsHeader(warnings),
     },
   });
 }
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { getRequestAccount, ownsProfile } from "@/lib/auth";
+import { deleteGapAnnotation, getGapAnnotation } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const account = await getRequestAccount(request);
+  if (!account) {
+    return NextResponse.json({ error: "Please sign in." }, { status: 401 });
+  }
+  const existing = await getGapAnnotation(id);
+  const annotation =
+    existing && (await ownsProfile(account, existing.profileId))
+      ? await deleteGapAnnotation(id)
+      : null;
+  if (!annotation) {
+    return NextResponse.json(
+      { error: "Gap explanation not found." },
+      { status: 404 },
+    );
+  }
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { getRequestAccount } from "@/lib/auth";
+import { isIsoDate } from "@/lib/dates";
+import { maxGapExplanationLength } from "@/lib/gaps";
+import { isPdfText, pdfTextError } from "@/lib/pdfText";
+import { getProfileData, resolveProfile, saveGapAnnotation } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const account = await getRequestAccount(request);
+  if (!account) {
+    return NextResponse.json({ error: "Please sign in." }, { status: 401 });
+  }
+  const url = new URL(request.url);
+  const profile = await resolveProfile(url.searchParams.get("profileId"), account.id);
+  if (!profile) {
+    return NextResponse.json({ error: "Profile not found." }, { status: 404 });
+  }
+  const { gapAnnotations } = await getProfileData(profile.id);
+  return NextResponse.json({ gapAnnotations });
+}
+
+export async function PUT(request: Request) {
+  const account = await getRequestAccount(request);
+  if (!account) {
+    return NextResponse.json({ error: "Please sign in." }, { status: 401 });
+  }
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json(
+      { error: "Request body must be a JSON object." },
+      { status: 400 },
+    );
+  }
+  const { profileId, start, end } = body;
+  const explanation = typeof body.explanation === "string" ? body.explanation.trim() : "";
+
+  if (
+    typeof start !== "string" ||
+    typeof end !== "string" ||
+    !isIsoDate(start) ||
+    !isIsoDate(end) ||
+    end < start
+  ) {
+    return NextResponse.json(
+      { error: "A valid gap start and end date are required." },
+      { status: 400 },
+    );
+  }
+
+  if (!explanation) {
+    return NextResponse.json(
+      { error: "An explanation is required." },
+      { status: 400 },
+    );
+  }
+  if (explanation.length > maxGapExplanationLength) {
+    return NextResponse.json(
+      { error: `The explanation must be at most ${maxGapExplanationLength} characters.` },
+      { status: 400 },
+    );
+  }
+  if (!isPdfText(explanation, true)) {
+    return NextResponse.json({ error: `The explanation ${pdfTextError}` }, { status: 400 });
+  }
+
+  const profile = await resolveProfile(profileId, account.id);
+  if (!profile) {
+    return NextResponse.json({ error: "Profile not found." }, { status: 404 });
+  }
+
+  const gapAnnotation = await saveGapAnnotation({
+    profileId: profile.id,
+    start,
+    end,
+    explanation,
+  });
+  return NextResponse.json({ gapAnnotation });
+}
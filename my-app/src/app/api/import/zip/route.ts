@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { getRequestAccount } from "@/lib/auth";
+import { ImportArchiveError, importZipArchive } from "@/lib/import";
+import { resolveProfile } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  const account = await getRequestAccount(request);
+  if (!account) {
+    return NextResponse.json({ error: "Please sign in." }, { status: 401 });
+  }
+  const formData = await request.formData();
+  const file = formData.get("file");
+  const mode = formData.get("mode") ?? "merge";
+  const dryRun = formData.get("dryRun") === "true";
+
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: "Missing archive upload." }, { status: 400 });
+  }
+
+  if (mode !== "merge" && mode !== "restore") {
+    return NextResponse.json(
+      { error: "Import mode must be merge or restore." },
+      { status: 400 },
+    );
+  }
+
+  const profileId = formData.get("profileId");
+  const profile = await resolveProfile(
+    typeof profileId === "string" ? profileId : null,
+    account.id,
+  );
+  if (!profile) {
+    return NextResponse.json({ error: "Profile not found." }, { status: 404 });
+  }
+
+  try {
+    const result = await importZipArchive({
+      profileId: profile.id,
+      data: await file.arrayBuffer(),
+      mode,
+      dryRun,
+    });
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    if (error instanceof ImportArchiveError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { getRequestAccount, ownsProfile } from "@/lib/auth";
+import { isPdfText, pdfTextError } from "@/lib/pdfText";
+import { deleteProfile, updateProfile } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const account = await getRequestAccount(request);
+  if (!account) {
+    return NextResponse.json({ error: "Please sign in." }, { status: 401 });
+  }
+  if (!(await ownsProfile(account, id))) {
+    return NextResponse.json({ error: "Profile not found." }, { status: 404 });
+  }
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json(
+      { error: "Request body must be a JSON object." },
+      { status: 400 },
+    );
+  }
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name) {
+    return NextResponse.json(
+      { error: "Profile name is required." },
+      { status: 400 },
+    );
+  }
+  if (!isPdfText(name)) {
+    return NextResponse.json({ error: `Profile name ${pdfTextError}` }, { status: 400 });
+  }
+
+  const profile = await updateProfile(id, { name });
+  if (!profile) {
+    return NextResponse.json({ error: "Profile not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ profile });
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const account = await getRequestAccount(request);
+  if (!account) {
+    return NextResponse.json({ error: "Please sign in." }, { status: 401 });
+  }
+  if (!(await ownsProfile(account, id))) {
+    return NextResponse.json({ error: "Profile not found." }, { status: 404 });
+  }
+  try {
+    const profile = await deleteProfile(id);
+    if (!profile) {
+      return NextResponse.json({ error: "Profile not found." }, { status: 404 });
+    }
+  } catch (error: unknown) {
+    const message =
+      error instanceof Error ? error.message : "Unable to delete profile.";
+    return NextResponse.json({ error: message }, { status: 409 });
+  }
+  return NextResponse.json({ ok: true });
+}
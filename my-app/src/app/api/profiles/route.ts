@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { getRequestAccount } from "@/lib/auth";
+import { isPdfText, pdfTextError } from "@/lib/pdfText";
+import { createProfile, listProfiles } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const account = await getRequestAccount(request);
+  if (!account) {
+    return NextResponse.json({ error: "Please sign in." }, { status: 401 });
+  }
+  const profiles = await listProfiles(account.id);
+  return NextResponse.json({ profiles });
+}
+
+export async function POST(request: Request) {
+  const account = await getRequestAccount(request);
+  if (!account) {
+    return NextResponse.json({ error: "Please sign in." }, { status: 401 });
+  }
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json(
+      { error: "Request body must be a JSON object." },
+      { status: 400 },
+    );
+  }
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name) {
+    return NextResponse.json(
+      { error: "Profile name is required." },
+      { status: 400 },
+    );
+  }
+  if (!isPdfText(name)) {
+    return NextResponse.json({ error: `Profile name ${pdfTextError}` }, { status: 400 });
+  }
+
+  const profile = await createProfile(name, account.id);
+  return NextResponse.json({ profile });
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { getRequestAccount } from "@/lib/auth";
+import { revokeShareLink } from "@/lib/shareLinks";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const account = await getRequestAccount(request);
+  if (!account) {
+    return NextResponse.json({ error: "Please sign in." }, { status: 401 });
+  }
+  const link = await revokeShareLink(account.id, id);
+  if (!link) {
+    return NextResponse.json({ error: "Share link not found." }, { status: 404 });
+  }
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { getRequestAccount } from "@/lib/auth";
+import type { ShareLinkSummary } from "@/lib/shareLinks";
+import { createShareLink, listShareLinks, parseShareLinkInput } from "@/lib/shareLinks";
+import { resolveProfile } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function withUrl(request: Request, link: ShareLinkSummary) {
+  return { ...link, url: new URL(`/api/share/${link.token}`, request.url).toString() };
+}
+
+export async function GET(request: Request) {
+  const account = await getRequestAccount(request);
+  if (!account) {
+    return NextResponse.json({ error: "Please sign in." }, { status: 401 });
+  }
+  const url = new URL(request.url);
+  const profile = await resolveProfile(url.searchParams.get("profileId"), account.id);
+  if (!profile) {
+    return NextResponse.json({ error: "Profile not found." }, { status: 404 });
+  }
+  const links = await listShareLinks(account.id, profile.id);
+  return NextResponse.json({ links: links.map((link) => withUrl(request, link)) });
+}
+
+export async function POST(request: Request) {
+  const account = await getRequestAccount(request);
+  if (!account) {
+    return NextResponse.json({ error: "Please sign in." }, { status: 401 });
+  }
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json(
+      { error: "Request body must be a JSON object." },
+      { status: 400 },
+    );
+  }
+
+  const parsed = parseShareLinkInput(body);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const profile = await resolveProfile(body.profileId, account.id);
+  if (!profile) {
+    return NextResponse.json({ error: "Profile not found." }, { status: 404 });
+  }
+
+  const link = await createShareLink(account.id, profile.id, parsed.input);
+  return NextResponse.json({ link: withUrl(request, link) }, { status: 201 });
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { buildExportZip, getExportData } from "@/lib/export";
+import { formatWarningsHeader } from "@/lib/exportWarnings";
+import { buildExportPdf } from "@/lib/pdf";
+import { countShareLinkVisit, verifyShareToken } from "@/lib/shareLinks";
+import { getProfile } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{
+    token: string;
+  }>;
+};
+
+/**
+ * Public: the token is the only credential. It serves exactly the export the
+ * link was made for, whatever query parameters come with it. The visit only
+ * counts once the export has been built.
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { token } = await params;
+  const verified = await verifyShareToken(token);
+  if ("error" in verified) {
+    return NextResponse.json({ error: verified.error }, { status: verified.status });
+  }
+  const { link } = verified;
+
+  const profile = await getProfile(link.profileId);
+  if (!profile || profile.accountId !== link.accountId) {
+    return NextResponse.json({ error: "This link is no longer available." }, { status: 404 });
+  }
+  const range = { start: link.start, end: link.end };
+  const { addresses, documents, gapAnnotations } = await getExportData(
+    profile.id,
+    range.start,
+    range.end,
+  );
+
+  const { data, warnings } =
+    link.format === "zip"
+      ? await buildExportZip({ profile, addresses, documents, gapAnnotations }).then(
+          ({ output, warnings }) => ({ data: output, warnings }),
+        )
+      : await buildExportPdf({
+          profile,
+          addresses,
+          documents,
+          gapAnnotations,
+          range,
+          watermark: link.watermark,
+        }).then(({ bytes, warnings }) => ({ data: bytes, warnings }));
+
+  // A single-use link is only spent once there is an export to send.
+  const counted = await countShareLinkVisit(link.id);
+  if ("error" in counted) {
+    return NextResponse.json({ error: counted.error }, { status: counted.status });
+  }
+  return new NextResponse(new Uint8Array(data), {
+    headers: {
+      "Cache-Control": "no-store",
+      "X-Robots-Tag": "noindex",
+      "Content-Type": link.format === "zip" ? "application/zip" : "application/pdf",
+      "Content-Disposition": `attachment; filename="address-history.${link.format}"`,
+      "X-Export-Warnings": formatWarningsHeader(warnings),
+    },
+  });
+}
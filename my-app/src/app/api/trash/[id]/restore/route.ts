@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { getRequestAccount, ownsProfile } from "@/lib/auth";
+import { getTrashItem, restoreTrashItem } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const account = await getRequestAccount(request);
+  if (!account) {
+    return NextResponse.json({ error: "Please sign in." }, { status: 401 });
+  }
+  const existing = await getTrashItem(id);
+  if (!existing || !(await ownsProfile(account, existing.profileId))) {
+    return NextResponse.json({ error: "Trash item not found." }, { status: 404 });
+  }
+  try {
+    const item = await restoreTrashItem(id);
+    if (!item) {
+      return NextResponse.json({ error: "Trash item not found." }, { status: 404 });
+    }
+    return NextResponse.json({ item });
+  } catch (error: unknown) {
+    const message =
+      error instanceof Error ? error.message : "Unable to restore item.";
+    return NextResponse.json({ error: message }, { status: 409 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { getRequestAccount, ownsProfile } from "@/lib/auth";
+import { getTrashItem, purgeTrashItem } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const account = await getRequestAccount(request);
+  if (!account) {
+    return NextResponse.json({ error: "Please sign in." }, { status: 401 });
+  }
+  const existing = await getTrashItem(id);
+  const item =
+    existing && (await ownsProfile(account, existing.profileId))
+      ? await purgeTrashItem(id)
+      : null;
+  if (!item) {
+    return NextResponse.json({ error: "Trash item not found." }, { status: 404 });
+  }
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import type { FormEvent } from "react";
+import { useEffect, useState } from "react";
+
+type Mode = "login" | "register";
+
+export default function LoginPage() {
+  const [mode, setMode] = useState<Mode>("login");
+  const [canRegister, setCanRegister] = useState(false);
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/auth/session")
+      .then((response) => response.json())
+      .then((data) => {
+        if (data.account) {
+          window.location.href = "/";
+          return;
+        }
+        setCanRegister(Boolean(data.canRegister));
+      })
+      .catch(() => setError("Unable to reach the server."));
+  }, []);
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+    setBusy(true);
+    const response = await fetch(`/api/auth/${mode}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ username, password }),
+    });
+    setBusy(false);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      setError(
+        data.error ??
+          (mode === "login" ? "Unable to sign in." : "Unable to create account."),
+      );
+      return;
+    }
+    window.location.href = "/";
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-50 text-zinc-900">
+      <main className="mx-auto flex w-full max-w-md flex-col gap-6 px-6 py-24">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-semibold">UK Address History</h1>
+          <p className="text-sm text-zinc-600">
+            {mode === "login"
+              ? "Sign in to see your addresses and documents."
+              : "Create an account. Only you will see the data you add."}
+          </p>
+        </div>
+        <form
+          onSubmit={handleSubmit}
+          className="flex flex-col gap-4 rounded-xl border border-zinc-200 bg-white p-6 shadow-sm"
+        >
+          <label className="flex flex-col gap-1 text-sm">
+            Username
+            <input
+              autoComplete="username"
+              autoFocus
+              className="rounded-md border border-zinc-300 px-3 py-2"
+              value={username}
+              onChange={(event) => setUsername(event.target.value)}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            Password
+            <input
+              type="password"
+              autoComplete={mode === "login" ? "current-password" : "new-password"}
+              className="rounded-md border border-zinc-300 px-3 py-2"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+            />
+          </label>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <button
+            type="submit"
+            disabled={busy}
+            className="rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 disabled:opacity-60"
+          >
+            {mode === "login" ? "Sign in" : "Create account"}
+          </button>
+          {canRegister && (
+            <button
+              type="button"
+              onClick={() => {
+                setMode(mode === "login" ? "register" : "login");
+                setError(null);
+              }}
+              className="text-sm font-medium text-zinc-600 hover:text-zinc-900"
+            >
+              {mode === "login"
+                ? "New here? Create an account"
+                : "Already have an account? Sign in"}
+            </button>
+          )}
+        </form>
+      </main>
+    </div>
+  );
+}
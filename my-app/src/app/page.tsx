@@ -1,9 +1,45 @@
 "use client";
 
-import type { FormEvent } from "react";
+import type { FormEvent, PointerEvent } from "react";
 import { useEffect, useMemo, useState } from "react";
-import { getLastThreeYearGaps, getLastThreeYearsRange } from "@/lib/gaps";
-import type { Address, DocumentMeta } from "@/lib/storage";
+import type { AnnotatedGap, DateRange, LookbackPreset } from "@/lib/gaps";
+import {
+  annotateGaps,
+  getAddressOverlaps,
+  getCoverageGaps,
+  getLastThreeYearsRange,
+  getLookbackPreset,
+  getLookbackRange,
+  isLookbackPreset,
+  lookbackPresets,
+  maxGapExplanationLength,
+} from "@/lib/gaps";
+import type { AddressInput, FieldErrors } from "@/lib/addressValidation";
+import { fieldErrorMessage, validateAddressInput } from "@/lib/addressValidation";
+import { formatUkDate } from "@/lib/dates";
+import type { DocumentCategory } from "@/lib/documents";
+import { documentCategories, getCategoryLabel } from "@/lib/documents";
+import { defaultEvidenceRule, getEvidenceGaps } from "@/lib/evidence";
+import type { ImportItem, ImportMode, ImportResult } from "@/lib/import";
+import type { EncryptionStatus } from "@/lib/encryption";
+import { defaultDeclarationText } from "@/lib/exportTemplates";
+import type { ExportWarning } from "@/lib/exportWarnings";
+import type { ImageQuality } from "@/lib/imageQuality";
+import { formatFileSize, imageQualities } from "@/lib/imageQuality";
+import type { ShareLinkSummary } from "@/lib/shareLinks";
+import { toEtag } from "@/lib/etag";
+import { isUkCountry, normalizePostcode, postcodeHint } from "@/lib/postcode";
+import type {
+  Address,
+  TrashItem,
+  DocumentMeta,
+  DocumentPage,
+  ExportFormat,
+  ExportTemplate,
+  GapAnnotation,
+  Profile,
+  Redaction,
+} from "@/lib/storage";
 
 type AddressFormState = {
   line1: string;
@@ -14,6 +50,67 @@ type AddressFormState = {
   country: string;
   startDate: string;
   endDate: string;
+  allowOverlap: boolean;
+};
+
+type DocumentDetailsForm = {
+  category: DocumentCategory | "";
+  issueDate: string;
+  issuer: string;
+};
+
+const lookbackStorageKey = "addressHistory.lookback";
+
+type TemplateFormState = {
+  id: string | null;
+  name: string;
+  title: string;
+  applicantName: string;
+  dateOfBirth: string;
+  reference: string;
+  coverText: string;
+  includeDeclaration: boolean;
+  declarationText: string;
+  logo: File | null;
+  signature: File | null;
+  removeLogo: boolean;
+  removeSignature: boolean;
+  hasLogo: boolean;
+  hasSignature: boolean;
+};
+
+function toTemplateForm(template?: ExportTemplate): TemplateFormState {
+  return {
+    id: template?.id ?? null,
+    name: template?.name ?? "",
+    title: template?.title ?? "",
+    applicantName: template?.applicantName ?? "",
+    dateOfBirth: template?.dateOfBirth ?? "",
+    reference: template?.reference ?? "",
+    coverText: template?.coverText ?? "",
+    includeDeclaration: template?.includeDeclaration ?? true,
+    declarationText: template?.declarationText ?? defaultDeclarationText,
+    logo: null,
+    signature: null,
+    removeLogo: false,
+    removeSignature: false,
+    hasLogo: Boolean(template?.logo),
+    hasSignature: Boolean(template?.signature),
+  };
+}
+
+type ShareLinkView = ShareLinkSummary & { url: string };
+
+const shareLinkDurations = [
+  { hours: 24, label: "1 day" },
+  { hours: 7 * 24, label: "7 days" },
+  { hours: 30 * 24, label: "30 days" },
+];
+
+const importItemLabels: Record<ImportItem["kind"], string> = {
+  address: "Address",
+  document: "Document",
+  gapAnnotation: "Gap explanation",
 };
 
 const emptyForm: AddressFormState = {
@@ -25,39 +122,474 @@ const emptyForm: AddressFormState = {
   country: "United Kingdom",
   startDate: "",
   endDate: "",
+  allowOverlap: false,
 };
 
-function formatUkDate(value?: string) {
-  if (!value) {
-    return "";
+function FieldError({ message }: { message?: string | null }) {
+  if (!message) {
+    return null;
+  }
+  return <span className="text-xs text-red-600">{message}</span>;
+}
+
+type RedactionDraft = { page: number; startX: number; startY: number; x: number; y: number };
+
+/** A point on the page preview as fractions of its width and height. */
+function toPageFraction(event: PointerEvent<HTMLDivElement>) {
+  const bounds = event.currentTarget.getBoundingClientRect();
+  const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+  return {
+    x: clamp((event.clientX - bounds.left) / bounds.width),
+    y: clamp((event.clientY - bounds.top) / bounds.height),
+  };
+}
+
+function toRedaction({ page, startX, startY, x, y }: RedactionDraft): Redaction {
+  const round = (value: number) => Math.round(value * 10000) / 10000;
+  const left = round(Math.min(startX, x));
+  const top = round(Math.min(startY, y));
+  return {
+    page,
+    x: left,
+    y: top,
+    width: Math.min(round(Math.abs(x - startX)), 1 - left),
+    height: Math.min(round(Math.abs(y - startY)), 1 - top),
+  };
+}
+
+/**
+ * Draws redaction boxes over a preview of each page of a document. Boxes are
+ * dragged out with the pointer and removed by clicking them.
+ */
+function RedactionEditor({
+  document,
+  onSave,
+  onCancel,
+}: {
+  document: DocumentMeta;
+  onSave: (redactions: Redaction[]) => void;
+  onCancel: () => void;
+}) {
+  const [pageCount, setPageCount] = useState<number | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const [boxes, setBoxes] = useState<Redaction[]>(document.redactions ?? []);
+  const [draft, setDraft] = useState<RedactionDraft | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/documents/${document.id}/redactions`)
+      .then(async (response) => {
+        const data = await response.json().catch(() => ({}));
+        if (cancelled) {
+          return;
+        }
+        if (!response.ok) {
+          setLoadError(data.error ?? "Unable to open document.");
+          return;
+        }
+        setPageCount(data.pageCount);
+        setBoxes(data.redactions);
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setLoadError("Unable to open document.");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [document.id]);
+
+  function startBox(event: PointerEvent<HTMLDivElement>) {
+    if (event.target !== event.currentTarget && !(event.target instanceof HTMLImageElement)) {
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const { x, y } = toPageFraction(event);
+    setDraft({ page, startX: x, startY: y, x, y });
+  }
+
+  function moveBox(event: PointerEvent<HTMLDivElement>) {
+    if (draft) {
+      setDraft({ ...draft, ...toPageFraction(event) });
+    }
+  }
+
+  function finishBox() {
+    if (!draft) {
+      return;
+    }
+    const box = toRedaction(draft);
+    // Ignore clicks and slips that barely move the pointer.
+    if (box.width > 0.005 && box.height > 0.005) {
+      setBoxes((prev) => [...prev, box]);
+    }
+    setDraft(null);
+  }
+
+  if (loadError) {
+    return (
+      <div className="mt-2 flex items-center gap-3 text-xs">
+        <span className="text-red-600">{loadError}</span>
+        <button type="button" onClick={onCancel} className="font-medium">
+          Close
+        </button>
+      </div>
+    );
+  }
+  if (pageCount === null) {
+    return <p className="mt-2 text-xs text-zinc-500">Loading pages…</p>;
+  }
+
+  const pageBoxes = [...boxes.entries()].filter(([, box]) => box.page === page);
+  const draftBox = draft ? toRedaction(draft) : null;
+  const boxStyle = (box: Redaction) => ({
+    left: `${box.x * 100}%`,
+    top: `${box.y * 100}%`,
+    width: `${box.width * 100}%`,
+    height: `${box.height * 100}%`,
+  });
+
+  return (
+    <div className="mt-2 space-y-2 rounded-md border border-zinc-200 bg-white p-3">
+      <p className="text-xs text-zinc-500">
+        Drag across the page to black out a part of it in exports; click a box
+        to remove it.
+      </p>
+      <div className="flex items-center gap-3 text-xs font-medium">
+        <button
+          type="button"
+          disabled={page <= 1}
+          onClick={() => setPage(page - 1)}
+          className="disabled:text-zinc-300"
+        >
+          Previous
+        </button>
+        <span className="text-zinc-500">
+          Page {page} of {pageCount}
+        </span>
+        <button
+          type="button"
+          disabled={page >= pageCount}
+          onClick={() => setPage(page + 1)}
+          className="disabled:text-zinc-300"
+        >
+          Next
+        </button>
+      </div>
+      <div
+        className="relative max-w-xl cursor-crosshair touch-none select-none border border-zinc-200"
+        onPointerDown={startBox}
+        onPointerMove={moveBox}
+        onPointerUp={finishBox}
+        onPointerCancel={() => setDraft(null)}
+      >
+        <img
+          src={`/api/documents/${document.id}/preview/${page}`}
+          alt={`Page ${page} of ${document.originalName}`}
+          className="block w-full"
+          draggable={false}
+        />
+        {pageBoxes.map(([index, box]) => (
+          <button
+            key={index}
+            type="button"
+            title="Remove this redaction"
+            aria-label="Remove this redaction"
+            className="absolute bg-black/80 hover:bg-red-700/70"
+            style={boxStyle(box)}
+            onClick={() => setBoxes((prev) => prev.filter((_, i) => i !== index))}
+          />
+        ))}
+        {draftBox && draftBox.page === page && (
+          <div className="absolute border border-red-600 bg-black/50" style={boxStyle(draftBox)} />
+        )}
+      </div>
+      <div className="flex gap-2 text-xs font-medium">
+        <button
+          type="button"
+          onClick={() => onSave(boxes)}
+          className="rounded-md bg-zinc-900 px-2 py-1 text-white"
+        >
+          Save redactions
+        </button>
+        <button
+          type="button"
+          disabled={pageBoxes.length === 0}
+          onClick={() => setBoxes((prev) => prev.filter((box) => box.page !== page))}
+          className="disabled:text-zinc-300"
+        >
+          Clear page
+        </button>
+        <button type="button" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+type PageChoice = { included: boolean; rotate: number };
+
+/**
+ * Thumbnails of a document's pages to choose which go into the PDF export
+ * and turn any that are the wrong way up.
+ */
+function PageSelector({
+  document,
+  onSave,
+  onCancel,
+}: {
+  document: DocumentMeta;
+  onSave: (pages: DocumentPage[] | null) => void;
+  onCancel: () => void;
+}) {
+  const [choices, setChoices] = useState<PageChoice[] | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/documents/${document.id}/pages`)
+      .then(async (response) => {
+        const data = await response.json().catch(() => ({}));
+        if (cancelled) {
+          return;
+        }
+        if (!response.ok) {
+          setMessage(data.error ?? "Unable to open document.");
+          return;
+        }
+        const pages: DocumentPage[] | null = data.pages;
+        setChoices(
+          Array.from({ length: data.pageCount as number }, (_, index) => {
+            const chosen = pages?.find((entry) => entry.page === index + 1);
+            return { included: !pages || Boolean(chosen), rotate: chosen?.rotate ?? 0 };
+          }),
+        );
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setMessage("Unable to open document.");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [document.id]);
+
+  function updateChoice(index: number, change: Partial<PageChoice>) {
+    setChoices((prev) =>
+      prev && prev.map((choice, i) => (i === index ? { ...choice, ...change } : choice)),
+    );
   }
-  const [year, month, day] = value.split("-");
-  if (!year || !month || !day) {
-    return value;
+
+  function save() {
+    if (!choices) {
+      return;
+    }
+    if (!choices.some((choice) => choice.included)) {
+      setMessage("Pick at least one page.");
+      return;
+    }
+    // Every page upright is the default, so it is saved as no selection.
+    const pages = choices.flatMap((choice, index): DocumentPage[] => {
+      if (!choice.included) {
+        return [];
+      }
+      const rotate = choice.rotate as DocumentPage["rotate"] | 0;
+      return [rotate ? { page: index + 1, rotate } : { page: index + 1 }];
+    });
+    onSave(
+      pages.length === choices.length && pages.every((entry) => !entry.rotate)
+        ? null
+        : pages,
+    );
+  }
+
+  if (!choices) {
+    return (
+      <div className="mt-2 flex items-center gap-3 text-xs">
+        <span className={message ? "text-red-600" : "text-zinc-500"}>
+          {message ?? "Loading pages…"}
+        </span>
+        {message && (
+          <button type="button" onClick={onCancel} className="font-medium">
+            Close
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-2 space-y-2 rounded-md border border-zinc-200 bg-white p-3">
+      <p className="text-xs text-zinc-500">
+        Untick pages to leave them out of the PDF export; rotate any that are
+        sideways or upside down.
+      </p>
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        {choices.map((choice, index) => (
+          <div key={index} className="flex flex-col items-center gap-1 text-xs">
+            <div
+              className={`flex h-36 w-36 items-center justify-center overflow-hidden border border-zinc-200 bg-zinc-50 ${
+                choice.included ? "" : "opacity-40"
+              }`}
+            >
+              <img
+                src={`/api/documents/${document.id}/preview/${index + 1}?width=200`}
+                alt={`Page ${index + 1}`}
+                className="max-h-full max-w-full"
+                style={{ transform: `rotate(${choice.rotate}deg)` }}
+              />
+            </div>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={choice.included}
+                onChange={(event) => updateChoice(index, { included: event.target.checked })}
+              />
+              Page {index + 1}
+            </label>
+            <button
+              type="button"
+              onClick={() => updateChoice(index, { rotate: (choice.rotate + 90) % 360 })}
+              className="font-medium text-zinc-600 hover:text-zinc-900"
+            >
+              Rotate
+            </button>
+          </div>
+        ))}
+      </div>
+      {message && <p className="text-xs text-red-600">{message}</p>}
+      <div className="flex gap-2 text-xs font-medium">
+        <button
+          type="button"
+          onClick={save}
+          className="rounded-md bg-zinc-900 px-2 py-1 text-white"
+        >
+          Save pages
+        </button>
+        <button type="button" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/** Fields that differ from the stored address; cleared fields are sent as null. */
+function buildAddressPatch(base: Address, value: AddressInput) {
+  const patch: Record<string, unknown> = {};
+  for (const key of Object.keys(value) as (keyof AddressInput)[]) {
+    if ((value[key] ?? null) !== (base[key] ?? null)) {
+      patch[key] = value[key] ?? null;
+    }
   }
-  return `${day.padStart(2, "0")}/${month.padStart(2, "0")}/${year}`;
+  return patch;
+}
+
+function inputClass(message?: string | null) {
+  return `rounded-md border px-3 py-2 ${
+    message ? "border-red-400" : "border-zinc-300"
+  }`;
 }
 
 export default function Home() {
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [newProfileName, setNewProfileName] = useState("");
   const [addresses, setAddresses] = useState<Address[]>([]);
   const [documents, setDocuments] = useState<DocumentMeta[]>([]);
+  const [gapAnnotations, setGapAnnotations] = useState<GapAnnotation[]>([]);
+  const [editingGap, setEditingGap] = useState<string | null>(null);
+  const [gapDraft, setGapDraft] = useState("");
   const [form, setForm] = useState<AddressFormState>(emptyForm);
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingBase, setEditingBase] = useState<Address | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const [pendingFiles, setPendingFiles] = useState<Record<string, File | null>>(
     {},
   );
+  const [editingDocId, setEditingDocId] = useState<string | null>(null);
+  const [redactingDocId, setRedactingDocId] = useState<string | null>(null);
+  const [arrangingDocId, setArrangingDocId] = useState<string | null>(null);
+  const [docDraft, setDocDraft] = useState<DocumentDetailsForm>({
+    category: "",
+    issueDate: "",
+    issuer: "",
+  });
   const [error, setError] = useState<string | null>(null);
   const [status, setStatus] = useState<string | null>(null);
-  const [exportRange, setExportRange] = useState(() =>
+  const [undoChangeId, setUndoChangeId] = useState<string | null>(null);
+  const [encryption, setEncryption] = useState<EncryptionStatus | null>(null);
+  const [passphrase, setPassphrase] = useState("");
+  const [trash, setTrash] = useState<(TrashItem & { expiresAt: string })[]>([]);
+  const [shareLinks, setShareLinks] = useState<ShareLinkView[]>([]);
+  const [shareFormat, setShareFormat] = useState<ExportFormat>("pdf");
+  const [shareHours, setShareHours] = useState(shareLinkDurations[1].hours);
+  const [shareSingleUse, setShareSingleUse] = useState(false);
+  const [watermark, setWatermark] = useState("");
+  const [imageQuality, setImageQuality] = useState<ImageQuality>("original");
+  const [maxSizeMb, setMaxSizeMb] = useState("");
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [exportWarnings, setExportWarnings] = useState<ExportWarning[] | null>(null);
+  const [templates, setTemplates] = useState<ExportTemplate[]>([]);
+  const [templateId, setTemplateId] = useState("");
+  const [templateForm, setTemplateForm] = useState<TemplateFormState | null>(null);
+  const [lookback, setLookback] = useState<LookbackPreset>("3y");
+  const [customRange, setCustomRange] = useState<DateRange>(() =>
     getLastThreeYearsRange(),
   );
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>("merge");
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
 
   const sortedAddresses = useMemo(
     () => [...addresses].sort((a, b) => a.startDate.localeCompare(b.startDate)),
     [addresses],
   );
 
-  const gaps = useMemo(() => getLastThreeYearGaps(addresses), [addresses]);
+  const postcodeError =
+    fieldErrors.postcode ??
+    (form.postcode && isUkCountry(form.country) && !normalizePostcode(form.postcode)
+      ? postcodeHint
+      : null);
+
+  const exportRange = useMemo(
+    () => getLookbackRange(lookback, { custom: customRange }),
+    [lookback, customRange],
+  );
+  const lookbackLabel =
+    lookback === "custom"
+      ? "selected range"
+      : getLookbackPreset(lookback).label.split(" (")[0].toLowerCase();
+
+  const gaps = useMemo(
+    () => annotateGaps(getCoverageGaps(addresses, exportRange), gapAnnotations),
+    [addresses, exportRange, gapAnnotations],
+  );
+
+  const evidenceGaps = useMemo(
+    () => getEvidenceGaps(addresses, documents, exportRange),
+    [addresses, documents, exportRange],
+  );
+
+  const overlaps = useMemo(
+    () => getAddressOverlaps(addresses, exportRange),
+    [addresses, exportRange],
+  );
+
+  const addressLabels = useMemo(
+    () =>
+      new Map(
+        addresses.map((address) => [
+          address.id,
+          `${address.line1}, ${address.postcode}`,
+        ]),
+      ),
+    [addresses],
+  );
 
   const documentsByAddress = useMemo(() => {
     const map = new Map<string, DocumentMeta[]>();
@@ -69,156 +601,941 @@ export default function Home() {
     return map;
   }, [documents]);
 
+  const otherProfiles = useMemo(
+    () => profiles.filter((profile) => profile.id !== profileId),
+    [profiles, profileId],
+  );
+
+  async function loadProfiles() {
+    const response = await fetch("/api/profiles");
+    if (response.status === 401) {
+      window.location.href = "/login";
+      return;
+    }
+    if (!response.ok) {
+      throw new Error("Unable to load profiles.");
+    }
+    const data = await response.json();
+    const list: Profile[] = data.profiles ?? [];
+    setProfiles(list);
+    setProfileId((current) =>
+      current && list.some((profile) => profile.id === current)
+        ? current
+        : list[0]?.id ?? null,
+    );
+  }
+
   async function refresh() {
-    const response = await fetch("/api/addresses");
+    if (!profileId) {
+      return;
+    }
+    const response = await fetch(`/api/addresses?profileId=${profileId}`);
     if (!response.ok) {
       throw new Error("Unable to load addresses.");
     }
     const data = await response.json();
     setAddresses(data.addresses ?? []);
     setDocuments(data.documents ?? []);
+    setGapAnnotations(data.gapAnnotations ?? []);
+    const trashResponse = await fetch(`/api/trash?profileId=${profileId}`);
+    if (trashResponse.ok) {
+      const trashData = await trashResponse.json();
+      setTrash(trashData.items ?? []);
+    }
+    const templateResponse = await fetch(`/api/export-templates?profileId=${profileId}`);
+    if (templateResponse.ok) {
+      const templateData = await templateResponse.json();
+      const list: ExportTemplate[] = templateData.templates ?? [];
+      setTemplates(list);
+      setTemplateId((current) =>
+        list.some((template) => template.id === current) ? current : "",
+      );
+    }
+    const shareResponse = await fetch(`/api/share-links?profileId=${profileId}`);
+    if (shareResponse.ok) {
+      const shareData = await shareResponse.json();
+      setShareLinks(shareData.links ?? []);
+    }
+  }
+
+  async function loadEncryptionStatus() {
+    const response = await fetch("/api/encryption");
+    if (!response.ok) {
+      throw new Error("Unable to check whether the store is locked.");
+    }
+    const data: EncryptionStatus = await response.json();
+    setEncryption(data);
+    if (!data.enabled || data.unlocked) {
+      await loadProfiles();
+    }
+  }
+
+  async function unlockStore(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+    const response = await fetch("/api/encryption/unlock", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ passphrase }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      setError(data.error ?? "Unable to unlock.");
+      return;
+    }
+    setPassphrase("");
+    setEncryption(data);
+    await loadProfiles();
+  }
+
+  // Drops everything decrypted from the page along with the server's key.
+  async function lockStore() {
+    setError(null);
+    setStatus(null);
+    setUndoChangeId(null);
+    const response = await fetch("/api/encryption/lock", { method: "POST" });
+    if (!response.ok) {
+      setError("Unable to lock.");
+      return;
+    }
+    setEncryption(await response.json());
+    resetForm();
+    setProfiles([]);
+    setProfileId(null);
+    setAddresses([]);
+    setDocuments([]);
+    setGapAnnotations([]);
+    setTrash([]);
+    setShareLinks([]);
+    setTemplates([]);
+    setTemplateForm(null);
+    setImportResult(null);
+  }
+
+  async function signOut() {
+    await fetch("/api/auth/logout", { method: "POST" });
+    window.location.href = "/login";
   }
 
   useEffect(() => {
-    refresh().catch((err: Error) => setError(err.message));
+    loadEncryptionStatus().catch((err: Error) => setError(err.message));
+    try {
+      const saved = JSON.parse(
+        window.localStorage.getItem(lookbackStorageKey) ?? "null",
+      );
+      if (saved && isLookbackPreset(saved.preset)) {
+        setLookback(saved.preset);
+        if (saved.custom?.start && saved.custom?.end) {
+          setCustomRange(saved.custom);
+        }
+      }
+    } catch {
+      window.localStorage.removeItem(lookbackStorageKey);
+    }
   }, []);
 
-  function updateField<K extends keyof AddressFormState>(key: K, value: string) {
+  function saveLookback(preset: LookbackPreset, custom: DateRange) {
+    setLookback(preset);
+    setCustomRange(custom);
+    window.localStorage.setItem(
+      lookbackStorageKey,
+      JSON.stringify({ preset, custom }),
+    );
+  }
+
+  function updateExportRange(key: keyof DateRange, value: string) {
+    saveLookback("custom", { ...exportRange, [key]: value });
+  }
+
+  useEffect(() => {
+    refresh().catch((err: Error) => setError(err.message));
+  }, [profileId]);
+
+  function switchProfile(id: string) {
+    setProfileId(id);
+    setPendingFiles({});
+    setError(null);
+    setStatus(null);
+    setUndoChangeId(null);
+    resetForm();
+  }
+
+  async function addProfile() {
+    setError(null);
+    setStatus(null);
+    setUndoChangeId(null);
+    const name = newProfileName.trim();
+    if (!name) {
+      setError("Enter a name for the new person.");
+      return;
+    }
+    const response = await fetch("/api/profiles", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ name }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      setError(data.error ?? "Unable to add person.");
+      return;
+    }
+    const data = await response.json();
+    setNewProfileName("");
+    await loadProfiles();
+    switchProfile(data.profile.id);
+    setStatus(`Added ${name}.`);
+  }
+
+  // The newest entry in an address's history is the change just made, which
+  // is what the banner's Undo button reverts.
+  async function announceChange(message: string, addressId: string) {
+    setStatus(message);
+    const response = await fetch(`/api/addresses/${addressId}/history`);
+    const data = await response.json().catch(() => ({}));
+    setUndoChangeId(data.changes?.[0]?.id ?? null);
+  }
+
+  async function undoChange() {
+    if (!undoChangeId) {
+      return;
+    }
+    setError(null);
+    setStatus(null);
+    const response = await fetch(`/api/changes/${undoChangeId}/revert`, {
+      method: "POST",
+    });
+    setUndoChangeId(null);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      setError(data.error ?? "Unable to undo the change.");
+      return;
+    }
+    resetForm();
+    await refresh();
+    setStatus("Change undone.");
+  }
+
+  async function shareAddress(addressId: string, targetProfileId: string) {
+    setError(null);
+    setStatus(null);
+    setUndoChangeId(null);
+    if (!targetProfileId) {
+      return;
+    }
+    const response = await fetch(`/api/addresses/${addressId}/link`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ profileId: targetProfileId }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      setError(data.error ?? "Unable to share address.");
+      return;
+    }
+    const data = await response.json();
+    await refresh();
+    const target = profiles.find((profile) => profile.id === targetProfileId);
+    await announceChange(
+      `Address shared with ${target?.name ?? "profile"}.`,
+      data.address.id,
+    );
+  }
+
+  async function unshareAddress(addressId: string) {
+    setError(null);
+    setStatus(null);
+    setUndoChangeId(null);
+    const response = await fetch(`/api/addresses/${addressId}/link`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      setError("Unable to unlink address.");
+      return;
+    }
+    await refresh();
+    await announceChange("Address unlinked.", addressId);
+  }
+
+  function updateField<K extends keyof AddressFormState>(
+    key: K,
+    value: AddressFormState[K],
+  ) {
     setForm((prev) => ({ ...prev, [key]: value }));
+    setFieldErrors((prev) => ({ ...prev, [key]: undefined }));
+  }
+
+  function resetForm() {
+    setForm(emptyForm);
+    setFieldErrors({});
+    setEditingId(null);
+    setEditingBase(null);
+  }
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+    setStatus(null);
+    setUndoChangeId(null);
+
+    const result = validateAddressInput(form);
+    if (!result.ok) {
+      setFieldErrors(result.errors);
+      setError(fieldErrorMessage);
+      return;
+    }
+
+    const response = editingBase
+      ? await fetch(`/api/addresses/${editingBase.id}`, {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+            "If-Match": toEtag(editingBase.updatedAt),
+          },
+          body: JSON.stringify(buildAddressPatch(editingBase, result.value)),
+        })
+      : await fetch("/api/addresses", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ ...result.value, profileId }),
+        });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      if (response.status === 409 && data.address) {
+        await refresh();
+        beginEdit(data.address);
+        setError(data.error ?? "This address was changed elsewhere.");
+        return;
+      }
+      setFieldErrors(data.fields ?? {});
+      setError(data.error ?? "Unable to save address.");
+      return;
+    }
+
+    const data = await response.json();
+    await refresh();
+    resetForm();
+    await announceChange(
+      editingBase ? "Address updated." : "Address added.",
+      data.address.id,
+    );
+  }
+
+  function beginEdit(address: Address) {
+    setEditingId(address.id);
+    setEditingBase(address);
+    setFieldErrors({});
+    setForm({
+      line1: address.line1,
+      line2: address.line2 ?? "",
+      town: address.town,
+      county: address.county ?? "",
+      postcode: address.postcode,
+      country: address.country,
+      startDate: address.startDate,
+      endDate: address.endDate ?? "",
+      allowOverlap: address.allowOverlap ?? false,
+    });
+  }
+
+  async function removeAddress(id: string) {
+    setError(null);
+    setStatus(null);
+    setUndoChangeId(null);
+    const response = await fetch(`/api/addresses/${id}`, { method: "DELETE" });
+    if (!response.ok) {
+      setError("Unable to delete address.");
+      return;
+    }
+    await refresh();
+    await announceChange("Address and its documents moved to trash.", id);
+  }
+
+  function beginGapEdit(gap: AnnotatedGap) {
+    setEditingGap(`${gap.start}-${gap.end}`);
+    setGapDraft(gap.annotation?.explanation ?? "");
+  }
+
+  async function saveGapExplanation(gap: AnnotatedGap) {
+    setError(null);
+    setStatus(null);
+    setUndoChangeId(null);
+    const response = await fetch("/api/gap-annotations", {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        profileId,
+        start: gap.annotation?.start ?? gap.start,
+        end: gap.annotation?.end ?? gap.end,
+        explanation: gapDraft,
+      }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      setError(data.error ?? "Unable to save explanation.");
+      return;
+    }
+    setEditingGap(null);
+    setGapDraft("");
+    await refresh();
+    setStatus("Gap explanation saved.");
+  }
+
+  async function removeGapExplanation(id: string) {
+    setError(null);
+    setStatus(null);
+    setUndoChangeId(null);
+    const response = await fetch(`/api/gap-annotations/${id}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      setError("Unable to remove explanation.");
+      return;
+    }
+    await refresh();
+    setStatus("Gap explanation removed.");
+  }
+
+  function setFile(addressId: string, file: File | null) {
+    setPendingFiles((prev) => ({ ...prev, [addressId]: file }));
+  }
+
+  async function uploadDocument(addressId: string) {
+    setError(null);
+    setStatus(null);
+    setUndoChangeId(null);
+    const file = pendingFiles[addressId];
+    if (!file) {
+      setError("Select a document to upload.");
+      return;
+    }
+    const formData = new FormData();
+    formData.append("addressId", addressId);
+    formData.append("file", file);
+    const response = await fetch("/api/documents", {
+      method: "POST",
+      body: formData,
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      setError(data.error ?? "Unable to upload document.");
+      return;
+    }
+    setFile(addressId, null);
+    await refresh();
+    await announceChange("Document uploaded.", addressId);
+  }
+
+  function beginDocumentEdit(doc: DocumentMeta) {
+    setEditingDocId(doc.id);
+    setDocDraft({
+      category: doc.category ?? "",
+      issueDate: doc.issueDate ?? "",
+      issuer: doc.issuer ?? "",
+    });
+  }
+
+  async function saveDocumentDetails(doc: DocumentMeta) {
+    setError(null);
+    setStatus(null);
+    setUndoChangeId(null);
+    const response = await fetch(`/api/documents/${doc.id}`, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(docDraft),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      setError(data.error ?? "Unable to update document.");
+      return;
+    }
+    setEditingDocId(null);
+    await refresh();
+    await announceChange("Document details updated.", doc.addressId);
+  }
+
+  async function saveRedactions(doc: DocumentMeta, redactions: Redaction[]) {
+    setError(null);
+    setStatus(null);
+    setUndoChangeId(null);
+    const response = await fetch(`/api/documents/${doc.id}/redactions`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ redactions }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      setError(data.error ?? "Unable to save redactions.");
+      return;
+    }
+    setRedactingDocId(null);
+    await refresh();
+    await announceChange("Redactions saved.", doc.addressId);
+  }
+
+  async function saveDocumentPages(doc: DocumentMeta, pages: DocumentPage[] | null) {
+    setError(null);
+    setStatus(null);
+    setUndoChangeId(null);
+    const response = await fetch(`/api/documents/${doc.id}/pages`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ pages }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      setError(data.error ?? "Unable to save pages.");
+      return;
+    }
+    setArrangingDocId(null);
+    await refresh();
+    await announceChange("Document pages saved.", doc.addressId);
+  }
+
+  async function removeDocument(doc: DocumentMeta) {
+    setError(null);
+    setStatus(null);
+    setUndoChangeId(null);
+    const response = await fetch(`/api/documents/${doc.id}`, { method: "DELETE" });
+    if (!response.ok) {
+      setError("Unable to delete document.");
+      return;
+    }
+    await refresh();
+    await announceChange("Document moved to trash.", doc.addressId);
+  }
+
+  async function restoreFromTrash(item: TrashItem) {
+    setError(null);
+    setStatus(null);
+    setUndoChangeId(null);
+    const response = await fetch(`/api/trash/${item.id}/restore`, {
+      method: "POST",
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      setError(data.error ?? "Unable to restore item.");
+      return;
+    }
+    await refresh();
+    await announceChange(
+      item.kind === "address" ? "Address restored." : "Document restored.",
+      item.addressId,
+    );
+  }
+
+  async function purgeFromTrash(item: TrashItem) {
+    setError(null);
+    setStatus(null);
+    setUndoChangeId(null);
+    const shouldPurge = window.confirm(
+      "Permanently delete this item? Its files cannot be recovered.",
+    );
+    if (!shouldPurge) {
+      return;
+    }
+    const response = await fetch(`/api/trash/${item.id}`, { method: "DELETE" });
+    if (!response.ok) {
+      setError("Unable to delete item permanently.");
+      return;
+    }
+    await refresh();
+    setStatus("Item deleted permanently.");
   }
 
-  function resetForm() {
-    setForm(emptyForm);
-    setEditingId(null);
+  function updateTemplateForm<K extends keyof TemplateFormState>(
+    field: K,
+    value: TemplateFormState[K],
+  ) {
+    setTemplateForm((current) => (current ? { ...current, [field]: value } : current));
   }
 
-  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+  async function saveTemplate(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
+    if (!templateForm || !profileId) {
+      return;
+    }
     setError(null);
     setStatus(null);
-
-    if (!form.line1 || !form.town || !form.postcode || !form.startDate) {
-      setError("Line 1, town, postcode, and start date are required.");
-      return;
+    setUndoChangeId(null);
+    const formData = new FormData();
+    formData.append("profileId", profileId);
+    for (const field of [
+      "name",
+      "title",
+      "applicantName",
+      "dateOfBirth",
+      "reference",
+      "coverText",
+      "declarationText",
+    ] as const) {
+      formData.append(field, templateForm[field]);
     }
-
-    if (form.endDate && form.endDate < form.startDate) {
-      setError("End date must be after the start date.");
-      return;
+    formData.append("includeDeclaration", String(templateForm.includeDeclaration));
+    if (templateForm.logo) {
+      formData.append("logo", templateForm.logo);
     }
-
-    const payload = {
-      ...form,
-      endDate: form.endDate || undefined,
-    };
+    if (templateForm.signature) {
+      formData.append("signature", templateForm.signature);
+    }
+    formData.append("removeLogo", String(templateForm.removeLogo));
+    formData.append("removeSignature", String(templateForm.removeSignature));
 
     const response = await fetch(
-      editingId ? `/api/addresses/${editingId}` : "/api/addresses",
-      {
-        method: editingId ? "PUT" : "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(payload),
-      },
+      templateForm.id ? `/api/export-templates/${templateForm.id}` : "/api/export-templates",
+      { method: templateForm.id ? "PUT" : "POST", body: formData },
     );
-
+    const data = await response.json().catch(() => ({}));
     if (!response.ok) {
-      const data = await response.json().catch(() => ({}));
-      setError(data.error ?? "Unable to save address.");
+      setError(data.error ?? "Unable to save template.");
       return;
     }
-
+    setTemplateForm(null);
     await refresh();
-    resetForm();
-    setStatus(editingId ? "Address updated." : "Address added.");
+    setTemplateId(data.template.id);
+    setStatus("Template saved.");
   }
 
-  function beginEdit(address: Address) {
-    setEditingId(address.id);
-    setForm({
-      line1: address.line1,
-      line2: address.line2 ?? "",
-      town: address.town,
-      county: address.county ?? "",
-      postcode: address.postcode,
-      country: address.country,
-      startDate: address.startDate,
-      endDate: address.endDate ?? "",
+  async function deleteTemplate(template: ExportTemplate) {
+    setError(null);
+    setStatus(null);
+    setUndoChangeId(null);
+    const response = await fetch(`/api/export-templates/${template.id}`, {
+      method: "DELETE",
     });
+    if (!response.ok) {
+      setError("Unable to delete template.");
+      return;
+    }
+    setTemplateForm(null);
+    await refresh();
+    setStatus("Template deleted.");
   }
 
-  async function removeAddress(id: string) {
+  // Fetched rather than linked so the final size can be reported.
+  async function downloadPdf(pdfUrl: string) {
     setError(null);
     setStatus(null);
-    const shouldDelete = window.confirm(
-      "Delete this address and its documents?",
-    );
-    if (!shouldDelete) {
+    setUndoChangeId(null);
+    setExportWarnings(null);
+    setExporting("pdf");
+    try {
+      const response = await fetch(pdfUrl);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error ?? "Unable to export PDF.");
+        return;
+      }
+      const blob = await response.blob();
+      const blobUrl = URL.createObjectURL(blob);
+      const link = window.document.createElement("a");
+      link.href = blobUrl;
+      link.download = "address-history.pdf";
+      link.click();
+      // Revoking straight away can cancel the download in some browsers.
+      window.setTimeout(() => URL.revokeObjectURL(blobUrl), 1000);
+
+      const usedQuality = imageQualities.find(
+        (quality) => quality.id === response.headers.get("X-Image-Quality"),
+      );
+      const reduced =
+        usedQuality && usedQuality.id !== imageQuality
+          ? ` Images were reduced to ${usedQuality.label.toLowerCase()} to fit.`
+          : "";
+      const warnings: ExportWarning[] = JSON.parse(
+        response.headers.get("X-Export-Warnings") ?? "[]",
+      );
+      setExportWarnings(warnings.length > 0 ? warnings : null);
+      const skipped =
+        warnings.length > 0
+          ? ` ${warnings.length} ${warnings.length === 1 ? "item was" : "items were"} left out; see below.`
+          : "";
+      const limit = Number(maxSizeMb) * 1024 * 1024;
+      setStatus(
+        limit && blob.size > limit
+          ? `PDF downloaded at ${formatFileSize(blob.size)}, still over ${maxSizeMb} MB even with the lowest image quality.${skipped}`
+          : `PDF downloaded (${formatFileSize(blob.size)}).${reduced}${skipped}`,
+      );
+    } catch {
+      setError("Unable to export PDF. Check your connection and try again.");
+    } finally {
+      setExporting(null);
+    }
+  }
+
+  // Fetched rather than linked so anything left out can be listed.
+  async function downloadZip(zipUrl: string) {
+    setError(null);
+    setStatus(null);
+    setUndoChangeId(null);
+    setExportWarnings(null);
+    setExporting("zip");
+    try {
+      const response = await fetch(zipUrl);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error ?? "Unable to export ZIP.");
+        return;
+      }
+      const blob = await response.blob();
+      const blobUrl = URL.createObjectURL(blob);
+      const link = window.document.createElement("a");
+      link.href = blobUrl;
+      link.download = "address-history.zip";
+      link.click();
+      window.setTimeout(() => URL.revokeObjectURL(blobUrl), 1000);
+
+      const warnings: ExportWarning[] = JSON.parse(
+        response.headers.get("X-Export-Warnings") ?? "[]",
+      );
+      setExportWarnings(warnings.length > 0 ? warnings : null);
+      setStatus(
+        warnings.length > 0
+          ? `ZIP downloaded. ${warnings.length} ${warnings.length === 1 ? "file was" : "files were"} left out; see below.`
+          : "ZIP downloaded.",
+      );
+    } catch {
+      setError("Unable to export ZIP. Check your connection and try again.");
+    } finally {
+      setExporting(null);
+    }
+  }
+
+  async function checkExport(format: ExportFormat) {
+    setError(null);
+    setStatus(null);
+    setUndoChangeId(null);
+    const response = await fetch(`/api/export/check?${exportQuery}&format=${format}`);
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      setError(data.error ?? "Unable to check the documents.");
+      setExportWarnings(null);
       return;
     }
-    const response = await fetch(`/api/addresses/${id}`, { method: "DELETE" });
+    const warnings: ExportWarning[] = data.warnings ?? [];
+    setExportWarnings(warnings.length > 0 ? warnings : null);
+    setStatus(
+      warnings.length > 0
+        ? `${warnings.length} ${warnings.length === 1 ? "document" : "documents"} would be left out of the ${format.toUpperCase()}.`
+        : `Every document can go into the ${format.toUpperCase()}.`,
+    );
+  }
+
+  async function createShareLink() {
+    setError(null);
+    setStatus(null);
+    setUndoChangeId(null);
+    const response = await fetch("/api/share-links", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        profileId,
+        format: shareFormat,
+        start: exportRange.start,
+        end: exportRange.end,
+        expiresInHours: shareHours,
+        singleUse: shareSingleUse,
+        watermark: shareFormat === "pdf" ? watermark : undefined,
+      }),
+    });
+    const data = await response.json().catch(() => ({}));
     if (!response.ok) {
-      setError("Unable to delete address.");
+      setError(data.error ?? "Unable to create share link.");
       return;
     }
     await refresh();
-    setStatus("Address deleted.");
+    try {
+      await navigator.clipboard.writeText(data.link.url);
+      setStatus("Share link created and copied to the clipboard.");
+    } catch {
+      setStatus("Share link created.");
+    }
   }
 
-  function setFile(addressId: string, file: File | null) {
-    setPendingFiles((prev) => ({ ...prev, [addressId]: file }));
+  async function copyShareLink(link: ShareLinkView) {
+    setError(null);
+    try {
+      await navigator.clipboard.writeText(link.url);
+      setStatus("Share link copied to the clipboard.");
+    } catch {
+      setError("Unable to copy the link. Select it and copy it manually.");
+    }
   }
 
-  async function uploadDocument(addressId: string) {
+  async function revokeShareLink(link: ShareLinkView) {
     setError(null);
     setStatus(null);
-    const file = pendingFiles[addressId];
-    if (!file) {
-      setError("Select a document to upload.");
-      return;
-    }
-    const formData = new FormData();
-    formData.append("addressId", addressId);
-    formData.append("file", file);
-    const response = await fetch("/api/documents", {
-      method: "POST",
-      body: formData,
+    setUndoChangeId(null);
+    const response = await fetch(`/api/share-links/${link.id}`, {
+      method: "DELETE",
     });
     if (!response.ok) {
-      const data = await response.json().catch(() => ({}));
-      setError(data.error ?? "Unable to upload document.");
+      setError("Unable to revoke share link.");
       return;
     }
-    setFile(addressId, null);
     await refresh();
-    setStatus("Document uploaded.");
+    setStatus("Share link revoked.");
   }
 
-  async function removeDocument(id: string) {
+  async function runImport(dryRun: boolean) {
     setError(null);
     setStatus(null);
-    const response = await fetch(`/api/documents/${id}`, { method: "DELETE" });
+    setUndoChangeId(null);
+    if (!importFile) {
+      setError("Select a ZIP export to import.");
+      return;
+    }
+    if (
+      !dryRun &&
+      importMode === "restore" &&
+      !window.confirm("Replace this person's history with the archive?")
+    ) {
+      return;
+    }
+    const formData = new FormData();
+    formData.append("file", importFile);
+    formData.append("mode", importMode);
+    formData.append("profileId", profileId ?? "");
+    formData.append("dryRun", String(dryRun));
+    const response = await fetch("/api/import/zip", {
+      method: "POST",
+      body: formData,
+    });
+    const data = await response.json().catch(() => ({}));
     if (!response.ok) {
-      setError("Unable to delete document.");
+      setError(data.error ?? "Unable to import archive.");
       return;
     }
-    await refresh();
-    setStatus("Document deleted.");
+    setImportResult(data);
+    if (!dryRun) {
+      await refresh();
+      setStatus(
+        `Imported ${data.summary.addressesAdded} addresses, ${data.summary.documentsAdded} documents and ${data.summary.gapAnnotationsAdded} gap explanations.`,
+      );
+    }
+  }
+
+  if (encryption?.enabled && !encryption.unlocked) {
+    return (
+      <div className="min-h-screen bg-zinc-50 text-zinc-900">
+        <main className="mx-auto flex w-full max-w-md flex-col gap-6 px-6 py-24">
+          <div className="space-y-2">
+            <h1 className="text-3xl font-semibold">UK Address History</h1>
+            <p className="text-sm text-zinc-600">
+              Your addresses and documents are encrypted. Enter your passphrase
+              to unlock them.
+            </p>
+          </div>
+          <form
+            onSubmit={unlockStore}
+            className="flex flex-col gap-4 rounded-xl border border-zinc-200 bg-white p-6 shadow-sm"
+          >
+            <label className="flex flex-col gap-1 text-sm">
+              Passphrase
+              <input
+                type="password"
+                autoFocus
+                className={inputClass(error)}
+                value={passphrase}
+                onChange={(event) => setPassphrase(event.target.value)}
+              />
+              <FieldError message={error} />
+            </label>
+            <button
+              type="submit"
+              className="rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800"
+            >
+              Unlock
+            </button>
+          </form>
+        </main>
+      </div>
+    );
   }
 
-  const pdfUrl = `/api/export/pdf?start=${exportRange.start}&end=${exportRange.end}`;
-  const zipUrl = `/api/export/zip?start=${exportRange.start}&end=${exportRange.end}`;
+  const exportQuery = `profileId=${profileId ?? ""}&preset=${lookback}&start=${exportRange.start}&end=${exportRange.end}`;
+  const selectedTemplate = templates.find((template) => template.id === templateId);
+  const pdfUrl = `/api/export/pdf?${exportQuery}${
+    templateId ? `&templateId=${templateId}` : ""
+  }${watermark.trim() ? `&watermark=${encodeURIComponent(watermark.trim())}` : ""}${
+    imageQuality === "original" ? "" : `&imageQuality=${imageQuality}`
+  }${maxSizeMb ? `&maxSizeMb=${maxSizeMb}` : ""}`;
+  const zipUrl = `/api/export/zip?${exportQuery}`;
 
   return (
     <div className="min-h-screen bg-zinc-50 text-zinc-900">
       <main className="mx-auto flex w-full max-w-6xl flex-col gap-8 px-6 py-12">
-        <header className="space-y-2">
-          <h1 className="text-3xl font-semibold">UK Address History</h1>
-          <p className="text-sm text-zinc-600">
-            Track addresses, attach proof documents, and export a single PDF for
-            applications.
-          </p>
+        <header className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+          <div className="space-y-2">
+            <h1 className="text-3xl font-semibold">UK Address History</h1>
+            <p className="text-sm text-zinc-600">
+              Track addresses, attach proof documents, and export a single PDF
+              for applications.
+            </p>
+          </div>
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+            <label className="flex flex-col gap-1 text-sm">
+              Person
+              <select
+                className="rounded-md border border-zinc-300 bg-white px-3 py-2"
+                value={profileId ?? ""}
+                onChange={(event) => switchProfile(event.target.value)}
+              >
+                {profiles.map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <input
+              className="rounded-md border border-zinc-300 px-3 py-2 text-sm"
+              placeholder="New person"
+              value={newProfileName}
+              onChange={(event) => setNewProfileName(event.target.value)}
+            />
+            <button
+              type="button"
+              onClick={addProfile}
+              className="rounded-md border border-zinc-300 px-3 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-100"
+            >
+              Add person
+            </button>
+            {encryption?.enabled && (
+              <button
+                type="button"
+                onClick={lockStore}
+                className="rounded-md border border-zinc-300 px-3 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-100"
+              >
+                Lock
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={signOut}
+              className="rounded-md border border-zinc-300 px-3 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-100"
+            >
+              Sign out
+            </button>
+          </div>
         </header>
 
         {(error || status) && (
@@ -229,7 +1546,18 @@ export default function Home() {
                 : "border-emerald-200 bg-emerald-50 text-emerald-700"
             }`}
           >
-            {error ?? status}
+            <div className="flex items-center justify-between gap-4">
+              <span>{error ?? status}</span>
+              {!error && undoChangeId && (
+                <button
+                  type="button"
+                  onClick={undoChange}
+                  className="rounded-md border border-emerald-300 px-2 py-1 text-xs font-medium hover:bg-emerald-100"
+                >
+                  Undo
+                </button>
+              )}
+            </div>
           </div>
         )}
 
@@ -256,84 +1584,111 @@ export default function Home() {
               <label className="flex flex-col gap-1 text-sm">
                 Line 1 *
                 <input
-                  className="rounded-md border border-zinc-300 px-3 py-2"
+                  className={inputClass(fieldErrors.line1)}
                   value={form.line1}
                   onChange={(event) => updateField("line1", event.target.value)}
                   required
                 />
+                <FieldError message={fieldErrors.line1} />
               </label>
               <label className="flex flex-col gap-1 text-sm">
                 Line 2
                 <input
-                  className="rounded-md border border-zinc-300 px-3 py-2"
+                  className={inputClass(fieldErrors.line2)}
                   value={form.line2}
                   onChange={(event) => updateField("line2", event.target.value)}
                 />
+                <FieldError message={fieldErrors.line2} />
               </label>
               <label className="flex flex-col gap-1 text-sm">
                 Town / City *
                 <input
-                  className="rounded-md border border-zinc-300 px-3 py-2"
+                  className={inputClass(fieldErrors.town)}
                   value={form.town}
                   onChange={(event) => updateField("town", event.target.value)}
                   required
                 />
+                <FieldError message={fieldErrors.town} />
               </label>
               <label className="flex flex-col gap-1 text-sm">
                 County
                 <input
-                  className="rounded-md border border-zinc-300 px-3 py-2"
+                  className={inputClass(fieldErrors.county)}
                   value={form.county}
                   onChange={(event) =>
                     updateField("county", event.target.value)
                   }
                 />
+                <FieldError message={fieldErrors.county} />
               </label>
               <label className="flex flex-col gap-1 text-sm">
                 Postcode *
                 <input
-                  className="rounded-md border border-zinc-300 px-3 py-2"
+                  className={inputClass(postcodeError)}
                   value={form.postcode}
                   onChange={(event) =>
                     updateField("postcode", event.target.value)
                   }
+                  onBlur={() => {
+                    const normalized = isUkCountry(form.country)
+                      ? normalizePostcode(form.postcode)
+                      : null;
+                    if (normalized) {
+                      updateField("postcode", normalized);
+                    }
+                  }}
+                  aria-invalid={Boolean(postcodeError)}
                   required
                 />
+                <FieldError message={postcodeError} />
               </label>
               <label className="flex flex-col gap-1 text-sm">
                 Country
                 <input
-                  className="rounded-md border border-zinc-300 px-3 py-2"
+                  className={inputClass(fieldErrors.country)}
                   value={form.country}
                   onChange={(event) =>
                     updateField("country", event.target.value)
                   }
                 />
+                <FieldError message={fieldErrors.country} />
               </label>
               <label className="flex flex-col gap-1 text-sm">
                 Start date *
                 <input
                   type="date"
-                  className="rounded-md border border-zinc-300 px-3 py-2"
+                  className={inputClass(fieldErrors.startDate)}
                   value={form.startDate}
                   onChange={(event) =>
                     updateField("startDate", event.target.value)
                   }
                   required
                 />
+                <FieldError message={fieldErrors.startDate} />
               </label>
               <label className="flex flex-col gap-1 text-sm">
                 End date
                 <input
                   type="date"
-                  className="rounded-md border border-zinc-300 px-3 py-2"
+                  className={inputClass(fieldErrors.endDate)}
                   value={form.endDate}
                   onChange={(event) =>
                     updateField("endDate", event.target.value)
                   }
                 />
+                <FieldError message={fieldErrors.endDate} />
               </label>
             </div>
+            <label className="mt-4 flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={form.allowOverlap}
+                onChange={(event) =>
+                  updateField("allowOverlap", event.target.checked)
+                }
+              />
+              Intentional overlap (for example a term-time address)
+            </label>
             <div className="mt-4 flex items-center gap-3">
               <button
                 type="submit"
@@ -350,28 +1705,147 @@ export default function Home() {
           </form>
 
           <div className="rounded-xl border border-zinc-200 bg-white p-6 shadow-sm">
-            <h2 className="text-lg font-semibold">Coverage gaps (last 3 years)</h2>
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+              <h2 className="text-lg font-semibold">
+                Coverage gaps ({lookbackLabel})
+              </h2>
+              <select
+                className="rounded-md border border-zinc-300 bg-white px-2 py-1 text-sm"
+                value={lookback}
+                onChange={(event) =>
+                  saveLookback(event.target.value as LookbackPreset, customRange)
+                }
+              >
+                {lookbackPresets.map((preset) => (
+                  <option key={preset.id} value={preset.id}>
+                    {preset.label}
+                  </option>
+                ))}
+              </select>
+            </div>
             <p className="mt-1 text-sm text-zinc-500">
-              Highlighted gaps in address coverage for the last 3 years.
+              Highlighted gaps in address coverage for the {lookbackLabel}.
             </p>
             <div className="mt-4 space-y-2 text-sm">
               {gaps.length === 0 ? (
                 <p className="text-emerald-700">
-                  No gaps detected for the last 3 years.
+                  No gaps detected for the {lookbackLabel}.
                 </p>
               ) : (
-                gaps.map((gap) => (
-                  <div
-                    key={`${gap.start}-${gap.end}`}
-                    className="rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-amber-700"
-                  >
-                    {formatUkDate(gap.start)} to {formatUkDate(gap.end)}
-                    {gap.isLeading && " (leading gap)"}
-                    {gap.isTrailing && " (trailing gap)"}
-                  </div>
-                ))
+                gaps.map((gap) => {
+                  const gapKey = `${gap.start}-${gap.end}`;
+                  return (
+                    <div
+                      key={gapKey}
+                      className={`rounded-md border px-3 py-2 ${
+                        gap.annotation
+                          ? "border-emerald-200 bg-emerald-50 text-emerald-800"
+                          : "border-amber-200 bg-amber-50 text-amber-700"
+                      }`}
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <span>
+                          {formatUkDate(gap.start)} to {formatUkDate(gap.end)}
+                          {gap.isLeading && " (leading gap)"}
+                          {gap.isTrailing && " (trailing gap)"}
+                          {gap.annotation && " (explained)"}
+                        </span>
+                        {editingGap !== gapKey && (
+                          <span className="flex gap-2 text-xs font-medium">
+                            <button type="button" onClick={() => beginGapEdit(gap)}>
+                              {gap.annotation ? "Edit" : "Explain"}
+                            </button>
+                            {gap.annotation && (
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  removeGapExplanation(gap.annotation!.id)
+                                }
+                              >
+                                Remove
+                              </button>
+                            )}
+                          </span>
+                        )}
+                      </div>
+                      {gap.annotation && editingGap !== gapKey && (
+                        <p className="mt-1 text-xs">{gap.annotation.explanation}</p>
+                      )}
+                      {editingGap === gapKey && (
+                        <div className="mt-2 flex flex-col gap-2">
+                          <textarea
+                            className="rounded-md border border-zinc-300 bg-white px-2 py-1 text-sm text-zinc-900"
+                            rows={2}
+                            placeholder="e.g. Travelling in South America"
+                            maxLength={maxGapExplanationLength}
+                            value={gapDraft}
+                            onChange={(event) => setGapDraft(event.target.value)}
+                          />
+                          <div className="flex gap-2 text-xs font-medium">
+                            <button
+                              type="button"
+                              onClick={() => saveGapExplanation(gap)}
+                              className="rounded-md bg-zinc-900 px-2 py-1 text-white"
+                            >
+                              Save
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => setEditingGap(null)}
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })
               )}
             </div>
+            {evidenceGaps.length > 0 && (
+              <div className="mt-6">
+                <h3 className="text-sm font-semibold">Periods without proof</h3>
+                <p className="mt-1 text-xs text-zinc-500">
+                  Each {defaultEvidenceRule.sliceMonths}-month stretch at an address
+                  needs a document issued (or uploaded) within it.
+                </p>
+                <div className="mt-2 space-y-2 text-sm">
+                  {evidenceGaps.map((gap) => (
+                    <div
+                      key={`${gap.addressId}-${gap.start}`}
+                      className="rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-amber-700"
+                    >
+                      {addressLabels.get(gap.addressId)}: {formatUkDate(gap.start)}{" "}
+                      to {formatUkDate(gap.end)}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            {overlaps.length > 0 && (
+              <div className="mt-6">
+                <h3 className="text-sm font-semibold">Overlapping addresses</h3>
+                <div className="mt-2 space-y-2 text-sm">
+                  {overlaps.map((overlap) => (
+                    <div
+                      key={`${overlap.firstId}-${overlap.secondId}`}
+                      className={`rounded-md border px-3 py-2 ${
+                        overlap.allowed
+                          ? "border-zinc-200 bg-zinc-50 text-zinc-600"
+                          : "border-red-200 bg-red-50 text-red-700"
+                      }`}
+                    >
+                      {addressLabels.get(overlap.firstId)} and{" "}
+                      {addressLabels.get(overlap.secondId)} overlap from{" "}
+                      {formatUkDate(overlap.start)} to {formatUkDate(overlap.end)}{" "}
+                      ({overlap.days} {overlap.days === 1 ? "day" : "days"})
+                      {overlap.allowed && " — marked as intentional"}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         </section>
 
@@ -415,8 +1889,38 @@ export default function Home() {
                             ? formatUkDate(address.endDate)
                             : "Present"}
                         </p>
+                        {address.linkId && (
+                          <p className="text-xs text-sky-700">
+                            Shared address: edits apply to every linked person.
+                          </p>
+                        )}
                       </div>
-                      <div className="flex gap-3">
+                      <div className="flex flex-wrap items-center gap-3">
+                        {otherProfiles.length > 0 && (
+                          <select
+                            className="rounded-md border border-zinc-300 bg-white px-2 py-1 text-xs"
+                            value=""
+                            onChange={(event) =>
+                              shareAddress(address.id, event.target.value)
+                            }
+                          >
+                            <option value="">Share with…</option>
+                            {otherProfiles.map((profile) => (
+                              <option key={profile.id} value={profile.id}>
+                                {profile.name}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                        {address.linkId && (
+                          <button
+                            className="text-sm font-medium text-zinc-600 hover:text-zinc-900"
+                            type="button"
+                            onClick={() => unshareAddress(address.id)}
+                          >
+                            Unlink
+                          </button>
+                        )}
                         <button
                           className="text-sm font-medium text-zinc-600 hover:text-zinc-900"
                           type="button"
@@ -443,23 +1947,136 @@ export default function Home() {
                           </p>
                         ) : (
                           docs.map((doc) => (
-                            <div
-                              key={doc.id}
-                              className="flex items-center justify-between gap-2 text-sm"
-                            >
-                              <a
-                                className="truncate text-zinc-700 underline decoration-zinc-300"
-                                href={`/api/documents/${doc.id}`}
-                              >
-                                {doc.originalName}
-                              </a>
-                              <button
-                                type="button"
-                                onClick={() => removeDocument(doc.id)}
-                                className="text-xs font-medium text-red-600 hover:text-red-700"
-                              >
-                                Remove
-                              </button>
+                            <div key={doc.id} className="text-sm">
+                              <div className="flex items-center justify-between gap-2">
+                                <div className="min-w-0">
+                                  <a
+                                    className="block truncate text-zinc-700 underline decoration-zinc-300"
+                                    href={`/api/documents/${doc.id}`}
+                                  >
+                                    {doc.originalName}
+                                  </a>
+                                  <p className="text-xs text-zinc-500">
+                                    {[
+                                      getCategoryLabel(doc.category) ??
+                                        "Uncategorised",
+                                      doc.issueDate &&
+                                        `issued ${formatUkDate(doc.issueDate)}`,
+                                      doc.issuer && `by ${doc.issuer}`,
+                                      doc.pages &&
+                                        `exporting page${doc.pages.length === 1 ? "" : "s"} ${doc.pages
+                                          .map((entry) => entry.page)
+                                          .join(", ")}`,
+                                    ]
+                                      .filter(Boolean)
+                                      .join(", ")}
+                                  </p>
+                                </div>
+                                <div className="flex shrink-0 gap-3">
+                                  <button
+                                    type="button"
+                                    onClick={() => beginDocumentEdit(doc)}
+                                    className="text-xs font-medium text-zinc-600 hover:text-zinc-900"
+                                  >
+                                    Details
+                                  </button>
+                                  <button
+                                    type="button"
+                                    onClick={() => setArrangingDocId(doc.id)}
+                                    className="text-xs font-medium text-zinc-600 hover:text-zinc-900"
+                                  >
+                                    Pages
+                                  </button>
+                                  <button
+                                    type="button"
+                                    onClick={() => setRedactingDocId(doc.id)}
+                                    className="text-xs font-medium text-zinc-600 hover:text-zinc-900"
+                                  >
+                                    Redact
+                                    {doc.redactions?.length ? ` (${doc.redactions.length})` : ""}
+                                  </button>
+                                  <button
+                                    type="button"
+                                    onClick={() => removeDocument(doc)}
+                                    className="text-xs font-medium text-red-600 hover:text-red-700"
+                                  >
+                                    Remove
+                                  </button>
+                                </div>
+                              </div>
+                              {editingDocId === doc.id && (
+                                <div className="mt-2 grid gap-2 sm:grid-cols-4">
+                                  <select
+                                    className="rounded-md border border-zinc-300 bg-white px-2 py-1 text-xs"
+                                    value={docDraft.category}
+                                    onChange={(event) =>
+                                      setDocDraft((prev) => ({
+                                        ...prev,
+                                        category: event.target
+                                          .value as DocumentDetailsForm["category"],
+                                      }))
+                                    }
+                                  >
+                                    <option value="">Category…</option>
+                                    {documentCategories.map((category) => (
+                                      <option key={category.id} value={category.id}>
+                                        {category.label}
+                                      </option>
+                                    ))}
+                                  </select>
+                                  <input
+                                    type="date"
+                                    className="rounded-md border border-zinc-300 px-2 py-1 text-xs"
+                                    value={docDraft.issueDate}
+                                    onChange={(event) =>
+                                      setDocDraft((prev) => ({
+                                        ...prev,
+                                        issueDate: event.target.value,
+                                      }))
+                                    }
+                                  />
+                                  <input
+                                    className="rounded-md border border-zinc-300 px-2 py-1 text-xs"
+                                    placeholder="Issuer"
+                                    value={docDraft.issuer}
+                                    onChange={(event) =>
+                                      setDocDraft((prev) => ({
+                                        ...prev,
+                                        issuer: event.target.value,
+                                      }))
+                                    }
+                                  />
+                                  <div className="flex gap-2 text-xs font-medium">
+                                    <button
+                                      type="button"
+                                      onClick={() => saveDocumentDetails(doc)}
+                                      className="rounded-md bg-zinc-900 px-2 py-1 text-white"
+                                    >
+                                      Save
+                                    </button>
+                                    <button
+                                      type="button"
+                                      onClick={() => setEditingDocId(null)}
+                                    >
+                                      Cancel
+                                    </button>
+                                  </div>
+                                </div>
+                              )}
+                              {arrangingDocId === doc.id && (
+                                <PageSelector
+                                  document={doc}
+                                  onSave={(pages) => saveDocumentPages(doc, pages)}
+                                  onCancel={() => setArrangingDocId(null)}
+                                />
+                              )}
+                              {redactingDocId === doc.id && (
+                                <RedactionEditor
+                                  document={doc}
+                                  onSave={(redactions) => saveRedactions(doc, redactions)}
+                                  onCancel={() => setRedactingDocId(null)}
+                                />
+                              )}
                             </div>
                           ))
                         )}
@@ -490,6 +2107,60 @@ export default function Home() {
           </div>
         </section>
 
+        <section className="rounded-xl border border-zinc-200 bg-white p-6 shadow-sm">
+          <h2 className="text-lg font-semibold">Trash</h2>
+          <p className="mt-1 text-sm text-zinc-500">
+            Deleted addresses and documents stay here until they are restored or
+            their retention period ends.
+          </p>
+          {trash.length === 0 ? (
+            <p className="mt-4 text-sm text-zinc-500">Trash is empty.</p>
+          ) : (
+            <ul className="mt-4 space-y-2">
+              {trash.map((item) => (
+                <li
+                  key={item.id}
+                  className="flex flex-col gap-2 rounded-md border border-zinc-200 px-3 py-2 text-sm sm:flex-row sm:items-center sm:justify-between"
+                >
+                  <div>
+                    <p className="font-medium">
+                      {item.address
+                        ? `${item.address.line1}, ${item.address.postcode}`
+                        : item.documents[0]?.originalName}
+                    </p>
+                    <p className="text-xs text-zinc-500">
+                      {item.kind === "address"
+                        ? `Address with ${item.documents.length} document${
+                            item.documents.length === 1 ? "" : "s"
+                          }`
+                        : "Document"}{" "}
+                      · deleted {formatUkDate(item.deletedAt.slice(0, 10))} ·
+                      removed permanently on{" "}
+                      {formatUkDate(item.expiresAt.slice(0, 10))}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 gap-3">
+                    <button
+                      type="button"
+                      onClick={() => restoreFromTrash(item)}
+                      className="text-xs font-medium text-zinc-600 hover:text-zinc-900"
+                    >
+                      Restore
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => purgeFromTrash(item)}
+                      className="text-xs font-medium text-red-600 hover:text-red-700"
+                    >
+                      Delete forever
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
         <section className="rounded-xl border border-zinc-200 bg-white p-6 shadow-sm">
           <h2 className="text-lg font-semibold">Export</h2>
           <p className="mt-1 text-sm text-zinc-500">
@@ -503,10 +2174,7 @@ export default function Home() {
                 className="rounded-md border border-zinc-300 px-3 py-2"
                 value={exportRange.start}
                 onChange={(event) =>
-                  setExportRange((prev) => ({
-                    ...prev,
-                    start: event.target.value,
-                  }))
+                  updateExportRange("start", event.target.value)
                 }
               />
             </label>
@@ -517,30 +2185,482 @@ export default function Home() {
                 className="rounded-md border border-zinc-300 px-3 py-2"
                 value={exportRange.end}
                 onChange={(event) =>
-                  setExportRange((prev) => ({
-                    ...prev,
-                    end: event.target.value,
-                  }))
+                  updateExportRange("end", event.target.value)
                 }
               />
             </label>
             <div className="flex flex-col justify-end">
-              <a
-                href={pdfUrl}
-                className="rounded-md bg-zinc-900 px-4 py-2 text-center text-sm font-medium text-white hover:bg-zinc-800"
+              <button
+                type="button"
+                onClick={() => downloadPdf(pdfUrl)}
+                disabled={exporting !== null}
+                className="rounded-md bg-zinc-900 px-4 py-2 text-center text-sm font-medium text-white hover:bg-zinc-800 disabled:bg-zinc-400"
+              >
+                {exporting === "pdf" ? "Building PDF…" : "Download PDF"}
+              </button>
+            </div>
+            <div className="flex flex-col justify-end">
+              <button
+                type="button"
+                onClick={() => downloadZip(zipUrl)}
+                disabled={exporting !== null}
+                className="rounded-md border border-zinc-300 px-4 py-2 text-center text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-60"
+              >
+                {exporting === "zip" ? "Building ZIP…" : "Download ZIP"}
+              </button>
+            </div>
+          </div>
+          <div className="mt-3 flex flex-wrap items-center gap-3 text-sm">
+            <span className="text-zinc-500">Check the documents before exporting:</span>
+            <button
+              type="button"
+              onClick={() => checkExport("pdf")}
+              className="font-medium text-zinc-700 hover:text-zinc-900"
+            >
+              For the PDF
+            </button>
+            <button
+              type="button"
+              onClick={() => checkExport("zip")}
+              className="font-medium text-zinc-700 hover:text-zinc-900"
+            >
+              For the ZIP
+            </button>
+          </div>
+          {exportWarnings ? (
+            <div className="mt-3 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-700">
+              <p className="font-medium">Left out of the export</p>
+              <ul className="mt-1 list-disc space-y-1 pl-5">
+                {exportWarnings.map((warning, index) => (
+                  <li key={`${warning.documentId ?? warning.name}-${index}`}>
+                    {warning.name}: {warning.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+          <div className="mt-4 flex flex-col gap-3 sm:flex-row sm:items-end">
+            <label className="flex flex-col gap-1 text-sm">
+              Photo quality in the PDF
+              <select
+                className="rounded-md border border-zinc-300 bg-white px-3 py-2"
+                value={imageQuality}
+                onChange={(event) => setImageQuality(event.target.value as ImageQuality)}
+              >
+                {imageQualities.map((quality) => (
+                  <option key={quality.id} value={quality.id}>
+                    {quality.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-sm">
+              Maximum PDF size (MB)
+              <input
+                type="number"
+                min="1"
+                step="1"
+                className="rounded-md border border-zinc-300 px-3 py-2"
+                placeholder="No limit"
+                value={maxSizeMb}
+                onChange={(event) => setMaxSizeMb(event.target.value)}
+              />
+            </label>
+            <p className="text-xs text-zinc-500 sm:pb-2">
+              With a limit, photos are reduced step by step until the PDF fits.
+              Your uploads are not changed.
+            </p>
+          </div>
+          <label className="mt-4 flex flex-col gap-1 text-sm">
+            Watermark on attached documents
+            <input
+              className="rounded-md border border-zinc-300 px-3 py-2"
+              placeholder="e.g. Provided to X Lettings for referencing only"
+              maxLength={120}
+              value={watermark}
+              onChange={(event) => setWatermark(event.target.value)}
+            />
+            <span className="text-xs text-zinc-500">
+              Stamped across every page of the documents in the PDF and in PDF
+              share links.
+            </span>
+          </label>
+          <div className="mt-6 border-t border-zinc-200 pt-4">
+            <h3 className="text-sm font-semibold">PDF template</h3>
+            <p className="mt-1 text-sm text-zinc-500">
+              Add applicant details, a logo, cover text and a signed declaration
+              to the PDF.
+            </p>
+            <div className="mt-3 flex flex-col gap-3 sm:flex-row sm:items-end">
+              <label className="flex flex-col gap-1 text-sm">
+                Template
+                <select
+                  className="rounded-md border border-zinc-300 bg-white px-3 py-2"
+                  value={templateId}
+                  onChange={(event) => setTemplateId(event.target.value)}
+                >
+                  <option value="">None</option>
+                  {templates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                type="button"
+                onClick={() => setTemplateForm(toTemplateForm())}
+                className="rounded-md border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50"
+              >
+                New template
+              </button>
+              {selectedTemplate && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => setTemplateForm(toTemplateForm(selectedTemplate))}
+                    className="rounded-md border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => deleteTemplate(selectedTemplate)}
+                    className="px-2 py-2 text-sm font-medium text-red-600 hover:text-red-700"
+                  >
+                    Delete
+                  </button>
+                </>
+              )}
+            </div>
+            {templateForm && (
+              <form
+                onSubmit={saveTemplate}
+                className="mt-4 grid gap-4 rounded-md border border-zinc-200 p-4 sm:grid-cols-2"
+              >
+                <label className="flex flex-col gap-1 text-sm">
+                  Template name
+                  <input
+                    className="rounded-md border border-zinc-300 px-3 py-2"
+                    value={templateForm.name}
+                    onChange={(event) => updateTemplateForm("name", event.target.value)}
+                    required
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-sm">
+                  PDF title
+                  <input
+                    className="rounded-md border border-zinc-300 px-3 py-2"
+                    placeholder="UK Address History Export"
+                    value={templateForm.title}
+                    onChange={(event) => updateTemplateForm("title", event.target.value)}
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-sm">
+                  Applicant name
+                  <input
+                    className="rounded-md border border-zinc-300 px-3 py-2"
+                    value={templateForm.applicantName}
+                    onChange={(event) =>
+                      updateTemplateForm("applicantName", event.target.value)
+                    }
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-sm">
+                  Date of birth
+                  <input
+                    type="date"
+                    className="rounded-md border border-zinc-300 px-3 py-2"
+                    value={templateForm.dateOfBirth}
+                    onChange={(event) =>
+                      updateTemplateForm("dateOfBirth", event.target.value)
+                    }
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-sm">
+                  Reference number
+                  <input
+                    className="rounded-md border border-zinc-300 px-3 py-2"
+                    value={templateForm.reference}
+                    onChange={(event) => updateTemplateForm("reference", event.target.value)}
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-sm">
+                  Logo (PNG or JPG)
+                  <input
+                    type="file"
+                    accept="image/png,image/jpeg"
+                    className="text-sm"
+                    onChange={(event) =>
+                      updateTemplateForm("logo", event.target.files?.[0] ?? null)
+                    }
+                  />
+                  {templateForm.hasLogo && (
+                    <span className="flex items-center gap-2 text-xs text-zinc-500">
+                      <input
+                        type="checkbox"
+                        checked={templateForm.removeLogo}
+                        onChange={(event) =>
+                          updateTemplateForm("removeLogo", event.target.checked)
+                        }
+                      />
+                      Remove the current logo
+                    </span>
+                  )}
+                </label>
+                <label className="flex flex-col gap-1 text-sm sm:col-span-2">
+                  Cover text
+                  <textarea
+                    rows={3}
+                    className="rounded-md border border-zinc-300 px-3 py-2"
+                    value={templateForm.coverText}
+                    onChange={(event) => updateTemplateForm("coverText", event.target.value)}
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-sm sm:col-span-2">
+                  <input
+                    type="checkbox"
+                    checked={templateForm.includeDeclaration}
+                    onChange={(event) =>
+                      updateTemplateForm("includeDeclaration", event.target.checked)
+                    }
+                  />
+                  Include a signed declaration
+                </label>
+                {templateForm.includeDeclaration && (
+                  <>
+                    <label className="flex flex-col gap-1 text-sm sm:col-span-2">
+                      Declaration
+                      <textarea
+                        rows={2}
+                        className="rounded-md border border-zinc-300 px-3 py-2"
+                        value={templateForm.declarationText}
+                        onChange={(event) =>
+                          updateTemplateForm("declarationText", event.target.value)
+                        }
+                      />
+                    </label>
+                    <label className="flex flex-col gap-1 text-sm">
+                      Signature image (optional, otherwise a line to sign on)
+                      <input
+                        type="file"
+                        accept="image/png,image/jpeg"
+                        className="text-sm"
+                        onChange={(event) =>
+                          updateTemplateForm("signature", event.target.files?.[0] ?? null)
+                        }
+                      />
+                      {templateForm.hasSignature && (
+                        <span className="flex items-center gap-2 text-xs text-zinc-500">
+                          <input
+                            type="checkbox"
+                            checked={templateForm.removeSignature}
+                            onChange={(event) =>
+                              updateTemplateForm("removeSignature", event.target.checked)
+                            }
+                          />
+                          Remove the current signature
+                        </span>
+                      )}
+                    </label>
+                  </>
+                )}
+                <div className="flex gap-3 sm:col-span-2">
+                  <button
+                    type="submit"
+                    className="rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800"
+                  >
+                    {templateForm.id ? "Save template" : "Create template"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setTemplateForm(null)}
+                    className="rounded-md border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+          <div className="mt-6 border-t border-zinc-200 pt-4">
+            <h3 className="text-sm font-semibold">Share links</h3>
+            <p className="mt-1 text-sm text-zinc-500">
+              Give someone read-only access to this export without an account.
+              The link always serves the date range chosen above.
+            </p>
+            <div className="mt-3 flex flex-col gap-3 sm:flex-row sm:items-end">
+              <label className="flex flex-col gap-1 text-sm">
+                Format
+                <select
+                  className="rounded-md border border-zinc-300 bg-white px-3 py-2"
+                  value={shareFormat}
+                  onChange={(event) =>
+                    setShareFormat(event.target.value as ExportFormat)
+                  }
+                >
+                  <option value="pdf">PDF</option>
+                  <option value="zip">ZIP</option>
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-sm">
+                Expires after
+                <select
+                  className="rounded-md border border-zinc-300 bg-white px-3 py-2"
+                  value={shareHours}
+                  onChange={(event) => setShareHours(Number(event.target.value))}
+                >
+                  {shareLinkDurations.map((duration) => (
+                    <option key={duration.hours} value={duration.hours}>
+                      {duration.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 pb-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={shareSingleUse}
+                  onChange={(event) => setShareSingleUse(event.target.checked)}
+                />
+                Single use
+              </label>
+              <button
+                type="button"
+                onClick={createShareLink}
+                className="rounded-md border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50"
+              >
+                Create link
+              </button>
+            </div>
+            {shareLinks.length === 0 ? (
+              <p className="mt-4 text-sm text-zinc-500">No active share links.</p>
+            ) : (
+              <ul className="mt-4 space-y-2">
+                {shareLinks.map((link) => (
+                  <li
+                    key={link.id}
+                    className="flex flex-col gap-2 rounded-md border border-zinc-200 px-3 py-2 text-sm sm:flex-row sm:items-center sm:justify-between"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium">
+                        {link.format.toUpperCase()} ·{" "}
+                        {formatUkDate(link.start)} to {formatUkDate(link.end)}
+                      </p>
+                      <p className="text-xs text-zinc-500">
+                        Expires {new Date(link.expiresAt).toLocaleString("en-GB")}
+                        {link.singleUse ? " · single use" : ""}
+                        {link.watermark ? " · watermarked" : ""} · opened{" "}
+                        {link.accessCount} time{link.accessCount === 1 ? "" : "s"}
+                      </p>
+                      <p className="truncate text-xs text-zinc-400">{link.url}</p>
+                    </div>
+                    <div className="flex shrink-0 gap-3">
+                      <button
+                        type="button"
+                        onClick={() => copyShareLink(link)}
+                        className="text-xs font-medium text-zinc-600 hover:text-zinc-900"
+                      >
+                        Copy
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => revokeShareLink(link)}
+                        className="text-xs font-medium text-red-600 hover:text-red-700"
+                      >
+                        Revoke
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </section>
+
+        <section className="rounded-xl border border-zinc-200 bg-white p-6 shadow-sm">
+          <h2 className="text-lg font-semibold">Import</h2>
+          <p className="mt-1 text-sm text-zinc-500">
+            Restore or merge a ZIP file downloaded from the export above. Preview
+            first to see what would change.
+          </p>
+          <div className="mt-4 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <label className="flex flex-col gap-1 text-sm">
+              Archive
+              <input
+                type="file"
+                accept="application/zip,.zip"
+                className="text-xs"
+                onChange={(event) => {
+                  setImportFile(event.target.files?.[0] ?? null);
+                  setImportResult(null);
+                }}
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-sm">
+              Mode
+              <select
+                className="rounded-md border border-zinc-300 bg-white px-3 py-2"
+                value={importMode}
+                onChange={(event) => {
+                  setImportMode(event.target.value as ImportMode);
+                  setImportResult(null);
+                }}
+              >
+                <option value="merge">Merge into current history</option>
+                <option value="restore">Replace current history</option>
+              </select>
+            </label>
+            <div className="flex flex-col justify-end">
+              <button
+                type="button"
+                onClick={() => runImport(true)}
+                className="rounded-md border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50"
               >
-                Download PDF
-              </a>
+                Preview import
+              </button>
             </div>
             <div className="flex flex-col justify-end">
-              <a
-                href={zipUrl}
-                className="rounded-md border border-zinc-300 px-4 py-2 text-center text-sm font-medium text-zinc-700 hover:bg-zinc-50"
+              <button
+                type="button"
+                onClick={() => runImport(false)}
+                className="rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800"
               >
-                Download ZIP
-              </a>
+                Import
+              </button>
             </div>
           </div>
+          {importResult && (
+            <div className="mt-4 space-y-2 text-sm">
+              <p className="font-medium">
+                {importResult.dryRun ? "Preview: " : "Imported: "}
+                {importResult.summary.addressesAdded} addresses,{" "}
+                {importResult.summary.documentsAdded} documents and{" "}
+                {importResult.summary.gapAnnotationsAdded} gap explanations added,{" "}
+                {importResult.summary.addressesSkipped +
+                  importResult.summary.documentsSkipped +
+                  importResult.summary.gapAnnotationsSkipped}{" "}
+                skipped,{" "}
+                {importResult.summary.addressesRemoved +
+                  importResult.summary.documentsRemoved +
+                  importResult.summary.gapAnnotationsRemoved}{" "}
+                removed.
+              </p>
+              <ul className="space-y-1 text-xs text-zinc-600">
+                {importResult.items.map((item, index) => (
+                  <li key={`${item.kind}-${index}`}>
+                    {item.action === "add" && "+ "}
+                    {item.action === "remove" && "− "}
+                    {(item.action === "duplicate" || item.action === "invalid") &&
+                      "· "}
+                    {importItemLabels[item.kind]}: {item.label}
+                    {item.action === "duplicate" && " (already present)"}
+                    {item.reason && ` (${item.reason})`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </section>
       </main>
     </div>
@@ -0,0 +1,192 @@
+import { isoDatePattern } from "./dates";
+import { isUkCountry, normalizePostcode, postcodeHint } from "./postcode";
+
+export type AddressInput = {
+  line1: string;
+  line2?: string;
+  town: string;
+  county?: string;
+  postcode: string;
+  country: string;
+  startDate: string;
+  endDate?: string;
+  allowOverlap?: boolean;
+};
+
+export type AddressField = keyof AddressInput;
+
+export type FieldErrors = Partial<Record<AddressField, string>>;
+
+export type AddressValidationResult =
+  | { ok: true; value: AddressInput }
+  | { ok: false; errors: FieldErrors };
+
+const fieldLabels: Record<AddressField, string> = {
+  line1: "Line 1",
+  line2: "Line 2",
+  town: "Town / City",
+  county: "County",
+  postcode: "Postcode",
+  country: "Country",
+  startDate: "Start date",
+  endDate: "End date",
+  allowOverlap: "Intentional overlap",
+};
+
+const maxLengths: Partial<Record<AddressField, number>> = {
+  line1: 100,
+  line2: 100,
+  town: 60,
+  county: 60,
+  postcode: 16,
+  country: 56,
+};
+
+const requiredFields: AddressField[] = ["line1", "town", "postcode", "country", "startDate"];
+
+/** Returns an error message when `value` is not a real YYYY-MM-DD date. */
+function checkDate(value: string, label: string) {
+  if (!isoDatePattern.test(value)) {
+    return `${label} must be a date in YYYY-MM-DD format.`;
+  }
+  const [year, month, day] = value.split("-").map((part) => Number(part));
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return `${label} is not a real calendar date.`;
+  }
+  return null;
+}
+
+function readString(input: Record<string, unknown>, field: AddressField) {
+  const value = input[field];
+  return typeof value === "string" ? value.trim() : undefined;
+}
+
+/**
+ * Validates an address submitted by the form or an API client and returns a
+ * cleaned copy (trimmed strings, empty optionals dropped, UK postcodes in
+ * canonical form). Errors are keyed by field so the form can show each one
+ * next to its input. Shared by the API routes and `page.tsx`.
+ */
+export function validateAddressInput(
+  input: unknown,
+  { today = new Date() }: { today?: Date } = {},
+): AddressValidationResult {
+  const errors: FieldErrors = {};
+  const record =
+    input && typeof input === "object" ? (input as Record<string, unknown>) : {};
+
+  const strings: Partial<Record<AddressField, string>> = {};
+  for (const field of Object.keys(fieldLabels) as AddressField[]) {
+    if (field === "allowOverlap") {
+      continue;
+    }
+    const value = readString(record, field);
+    if (record[field] !== undefined && record[field] !== null && value === undefined) {
+      errors[field] = `${fieldLabels[field]} must be text.`;
+      continue;
+    }
+    if (!value) {
+      if (requiredFields.includes(field)) {
+        errors[field] = `${fieldLabels[field]} is required.`;
+      }
+      continue;
+    }
+    const maxLength = maxLengths[field];
+    if (maxLength && value.length > maxLength) {
+      errors[field] = `${fieldLabels[field]} must be at most ${maxLength} characters.`;
+      continue;
+    }
+    strings[field] = value;
+  }
+
+  if (strings.postcode && !errors.country && isUkCountry(strings.country)) {
+    const normalized = normalizePostcode(strings.postcode);
+    if (normalized) {
+      strings.postcode = normalized;
+    } else {
+      errors.postcode = postcodeHint;
+    }
+  }
+
+  const todayIso = today.toISOString().slice(0, 10);
+  if (strings.startDate) {
+    const problem = checkDate(strings.startDate, fieldLabels.startDate);
+    if (problem) {
+      errors.startDate = problem;
+    } else if (strings.startDate > todayIso) {
+      errors.startDate = "Start date cannot be in the future.";
+    }
+  }
+  if (strings.endDate) {
+    const problem = checkDate(strings.endDate, fieldLabels.endDate);
+    if (problem) {
+      errors.endDate = problem;
+    } else if (strings.startDate && !errors.startDate && strings.endDate < strings.startDate) {
+      errors.endDate = "End date must be on or after the start date.";
+    }
+  }
+
+  const allowOverlap = record.allowOverlap;
+  if (allowOverlap !== undefined && allowOverlap !== null && typeof allowOverlap !== "boolean") {
+    errors.allowOverlap = `${fieldLabels.allowOverlap} must be true or false.`;
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      line1: strings.line1!,
+      line2: strings.line2,
+      town: strings.town!,
+      county: strings.county,
+      postcode: strings.postcode!,
+      country: strings.country!,
+      startDate: strings.startDate!,
+      endDate: strings.endDate,
+      allowOverlap: allowOverlap === true || undefined,
+    },
+  };
+}
+
+export const fieldErrorMessage = "Please fix the highlighted fields.";
+
+const patchableFields: AddressField[] = [
+  "line1",
+  "line2",
+  "town",
+  "county",
+  "postcode",
+  "country",
+  "startDate",
+  "endDate",
+  "allowOverlap",
+];
+
+/**
+ * Applies a PATCH body to the current values of an address. Only fields
+ * present in the patch change; `null` or an empty string clears a field, so
+ * clearing a required field is caught by `validateAddressInput`.
+ */
+export function mergeAddressPatch(current: AddressInput, patch: unknown) {
+  const merged: Record<string, unknown> = {};
+  for (const field of patchableFields) {
+    merged[field] = current[field];
+  }
+  if (patch && typeof patch === "object") {
+    const changes = patch as Record<string, unknown>;
+    for (const field of patchableFields) {
+      if (field in changes) {
+        merged[field] = changes[field] === null ? undefined : changes[field];
+      }
+    }
+  }
+  return merged;
+}
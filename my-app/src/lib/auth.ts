@@ -0,0 +1,238 @@
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+import { getRepository } from "./repository";
+import { readSessionToken, sessionMaxAgeSeconds } from "./session";
+import type { Account, ChangeEntry, Session } from "./storage";
+import {
+  claimOwnerlessProfiles,
+  createDefaultProfile,
+  getAddress,
+  getChangeProfileIds,
+  getDocumentById,
+  getProfile,
+} from "./storage";
+
+export type PublicAccount = Pick<Account, "id" | "username">;
+
+// scrypt parameters are stored with each hash so they can be raised later
+// without invalidating existing passwords.
+const hashCost = 2 ** 15;
+const hashBlockSize = 8;
+const hashParallelization = 1;
+const hashLength = 64;
+
+function scrypt(password: string, salt: Buffer, cost: number, blockSize: number, parallelization: number) {
+  return new Promise<Buffer>((resolve, reject) => {
+    crypto.scrypt(
+      password,
+      salt,
+      hashLength,
+      { N: cost, r: blockSize, p: parallelization, maxmem: 256 * cost * blockSize },
+      (error, hash) => (error ? reject(error) : resolve(hash)),
+    );
+  });
+}
+
+export async function hashPassword(password: string) {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, hashCost, hashBlockSize, hashParallelization);
+  return [
+    "scrypt",
+    hashCost,
+    hashBlockSize,
+    hashParallelization,
+    salt.toString("base64"),
+    hash.toString("base64"),
+  ].join("$");
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [scheme, cost, blockSize, parallelization, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, "base64");
+  const actual = await scrypt(
+    password,
+    Buffer.from(salt, "base64"),
+    Number(cost),
+    Number(blockSize),
+    Number(parallelization),
+  );
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+function normalizeUsername(username: string) {
+  return username.trim().toLowerCase();
+}
+
+function hashToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export function toPublicAccount(account: Account): PublicAccount {
+  return { id: account.id, username: account.username };
+}
+
+/**
+ * The first account can always be created; after that sign-up stays closed
+ * unless ALLOW_SIGNUP=true.
+ */
+export async function canRegister() {
+  if (process.env.ALLOW_SIGNUP === "true") {
+    return true;
+  }
+  const accounts = await getRepository().read((session) => session.list("accounts"));
+  return accounts.length === 0;
+}
+
+export function validateCredentials(username: unknown, password: unknown) {
+  if (typeof username !== "string" || !/^[a-z0-9._-]{3,40}$/.test(normalizeUsername(username))) {
+    return "Usernames are 3 to 40 letters, numbers, dots, dashes or underscores.";
+  }
+  if (typeof password !== "string" || password.length < 8) {
+    return "Passwords must be at least 8 characters.";
+  }
+  return null;
+}
+
+/**
+ * Creates an account, or returns null if the username is taken. The first
+ * account takes over any profiles created before accounts existed; an
+ * account left without one gets a default profile.
+ */
+export async function createAccount(username: string, password: string) {
+  const passwordHash = await hashPassword(password);
+  const created = await getRepository().mutate(async (session) => {
+    const accounts = await session.list("accounts");
+    const name = normalizeUsername(username);
+    if (accounts.some((account) => account.username === name)) {
+      return null;
+    }
+    const now = new Date().toISOString();
+    const account: Account = {
+      id: crypto.randomUUID(),
+      username: name,
+      passwordHash,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await session.put("accounts", account);
+    return { account, first: accounts.length === 0 };
+  });
+  if (!created) {
+    return null;
+  }
+  if (created.first) {
+    await claimOwnerlessProfiles(created.account.id);
+  }
+  await createDefaultProfile(created.account.id);
+  return created.account;
+}
+
+export async function authenticate(username: string, password: string) {
+  const accounts = await getRepository().read((session) => session.list("accounts"));
+  const account = accounts.find((item) => item.username === normalizeUsername(username));
+  if (!account) {
+    // Hash anyway so a missing account takes as long as a wrong password.
+    await hashPassword(password);
+    return null;
+  }
+  return (await verifyPassword(password, account.passwordHash)) ? account : null;
+}
+
+/** Starts a session and returns the token for the cookie. Only its hash is stored. */
+export async function createSession(accountId: string) {
+  const token = crypto.randomBytes(32).toString("base64url");
+  const now = new Date();
+  await getRepository().mutate(async (session) => {
+    for (const existing of await session.list("sessions")) {
+      if (existing.expiresAt <= now.toISOString()) {
+        await session.remove("sessions", existing.id);
+      }
+    }
+    const record: Session = {
+      id: hashToken(token),
+      accountId,
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + sessionMaxAgeSeconds * 1000).toISOString(),
+    };
+    await session.put("sessions", record);
+  });
+  return token;
+}
+
+export function deleteSession(token: string) {
+  return getRepository().mutate((session) => session.remove("sessions", hashToken(token)));
+}
+
+/** The account behind the request's session cookie, or null. */
+export async function getRequestAccount(request: Request) {
+  const token = readSessionToken(request);
+  if (!token) {
+    return null;
+  }
+  return getRepository().read(async (session) => {
+    const record = await session.get("sessions", hashToken(token));
+    if (!record || record.expiresAt <= new Date().toISOString()) {
+      return null;
+    }
+    return session.get("accounts", record.accountId);
+  });
+}
+
+export async function ownsProfile(account: Account, profileId: string) {
+  const profile = await getProfile(profileId);
+  return profile?.accountId === account.id;
+}
+
+/**
+ * The request's address, or the response to send instead. Someone else's
+ * address answers exactly like a missing one.
+ */
+export async function findOwnedAddress(request: Request, id: string) {
+  const account = await getRequestAccount(request);
+  if (!account) {
+    return NextResponse.json({ error: "Please sign in." }, { status: 401 });
+  }
+  const address = await getAddress(id);
+  if (!address || !(await ownsProfile(account, address.profileId))) {
+    return NextResponse.json({ error: "Address not found." }, { status: 404 });
+  }
+  return address;
+}
+
+/** Like `findOwnedAddress`, for documents. */
+export async function findOwnedDocument(request: Request, id: string) {
+  const account = await getRequestAccount(request);
+  if (!account) {
+    return NextResponse.json({ error: "Please sign in." }, { status: 401 });
+  }
+  const document = await getDocumentById(id);
+  if (!document || !(await ownsProfile(account, document.profileId))) {
+    return NextResponse.json({ error: "Document not found." }, { status: 404 });
+  }
+  return document;
+}
+
+/**
+ * Whether everything a change touched belongs to the account. Profiles the
+ * change itself created or deleted are judged by their recorded owner.
+ */
+export async function ownsChange(account: Account, change: ChangeEntry) {
+  const ownedHere = new Set<string>();
+  for (const record of change.records) {
+    if (record.collection === "profiles") {
+      if ((record.after ?? record.before)?.accountId !== account.id) {
+        return false;
+      }
+      ownedHere.add(record.id);
+    }
+  }
+  for (const profileId of getChangeProfileIds(change)) {
+    if (!ownedHere.has(profileId) && !(await ownsProfile(account, profileId))) {
+      return false;
+    }
+  }
+  return true;
+}
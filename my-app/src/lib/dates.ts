@@ -0,0 +1,37 @@
+export const isoDatePattern = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Parses a YYYY-MM-DD date as UTC midnight, or returns null. */
+export function parseDate(value: string) {
+  const [year, month, day] = value.split("-").map((part) => Number(part));
+  if (!year || !month || !day) {
+    return null;
+  }
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+export function formatDate(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+export function addDays(date: Date, days: number) {
+  const copy = new Date(date);
+  copy.setUTCDate(copy.getUTCDate() + days);
+  return copy;
+}
+
+/** Whether `value` is a YYYY-MM-DD date that exists on the calendar. */
+export function isIsoDate(value: string) {
+  return isoDatePattern.test(value) && parseDate(value)?.toISOString().slice(0, 10) === value;
+}
+
+/** Formats a YYYY-MM-DD date as DD/MM/YYYY. */
+export function formatUkDate(value?: string) {
+  if (!value) {
+    return "";
+  }
+  const [year, month, day] = value.split("-");
+  if (!year || !month || !day) {
+    return value;
+  }
+  return `${day.padStart(2, "0")}/${month.padStart(2, "0")}/${year}`;
+}
@@ -0,0 +1,170 @@
+import { formatUkDate, isIsoDate } from "./dates";
+import { isPdfText, pdfTextError } from "./pdfText";
+import type { DocumentDetails, DocumentMeta, DocumentPage, Redaction } from "./storage";
+
+export type DocumentCategory =
+  | "utility-bill"
+  | "bank-statement"
+  | "council-tax"
+  | "tenancy-agreement"
+  | "other";
+
+export const documentCategories: { id: DocumentCategory; label: string }[] = [
+  { id: "utility-bill", label: "Utility bill" },
+  { id: "bank-statement", label: "Bank statement" },
+  { id: "council-tax", label: "Council tax" },
+  { id: "tenancy-agreement", label: "Tenancy agreement" },
+  { id: "other", label: "Other" },
+];
+
+/** The file types a document can be uploaded or imported as. */
+export const allowedDocumentTypes = new Set(["application/pdf", "image/png", "image/jpeg"]);
+
+export function isDocumentCategory(value: unknown): value is DocumentCategory {
+  return documentCategories.some((category) => category.id === value);
+}
+
+export function getCategoryLabel(category?: DocumentCategory) {
+  return documentCategories.find((option) => option.id === category)?.label ?? null;
+}
+
+/**
+ * One-line description of a proof document, e.g.
+ * "Utility bill, issued 01/02/2024 by British Gas (bill.pdf)".
+ */
+export function describeDocument(document: DocumentMeta) {
+  const parts = [getCategoryLabel(document.category) ?? "Document"];
+  if (document.issueDate) {
+    parts.push(`issued ${formatUkDate(document.issueDate)}`);
+  }
+  const summary = document.issuer
+    ? `${parts.join(", ")} by ${document.issuer}`
+    : parts.join(", ");
+  return `${summary} (${document.originalName})`;
+}
+
+const detailFields = ["category", "issueDate", "issuer"] as const;
+const maxIssuerLength = 120;
+
+/**
+ * Reads document details from a request body. Only fields present in the
+ * input are returned; a present but empty or null field comes back as
+ * `undefined`, meaning "clear it".
+ */
+export function parseDocumentDetails(
+  input: Record<string, unknown>,
+): { details: DocumentDetails } | { error: string } {
+  const details: DocumentDetails = {};
+  for (const field of detailFields) {
+    if (!(field in input)) {
+      continue;
+    }
+    const raw = input[field];
+    const value = typeof raw === "string" ? raw.trim() : raw;
+    if (value === null || value === "") {
+      details[field] = undefined;
+      continue;
+    }
+    if (typeof value !== "string") {
+      return { error: `${field} must be a string.` };
+    }
+    if (field === "category" && !isDocumentCategory(value)) {
+      return { error: "Unknown document category." };
+    }
+    if (field === "issueDate" && !isIsoDate(value)) {
+      return { error: "Issue date must be a YYYY-MM-DD date." };
+    }
+    if (field === "issuer" && value.length > maxIssuerLength) {
+      return { error: `Issuer must be at most ${maxIssuerLength} characters.` };
+    }
+    // The issuer is drawn in the PDF export.
+    if (field === "issuer" && !isPdfText(value)) {
+      return { error: `Issuer ${pdfTextError}` };
+    }
+    (details as Record<string, string>)[field] = value;
+  }
+  return { details };
+}
+
+export const maxRedactions = 200;
+
+function isFraction(value: unknown): value is number {
+  return typeof value === "number" && value >= 0 && value <= 1;
+}
+
+/**
+ * Reads a document's redaction boxes from a request body. Each box must be
+ * on a page from 1 to `pageCount` and lie entirely within it.
+ */
+export function parseRedactions(
+  input: unknown,
+  pageCount: number,
+): { redactions: Redaction[] } | { error: string } {
+  if (!Array.isArray(input)) {
+    return { error: "redactions must be a list." };
+  }
+  if (input.length > maxRedactions) {
+    return { error: `A document can have at most ${maxRedactions} redactions.` };
+  }
+  const redactions: Redaction[] = [];
+  for (const item of input) {
+    const { page, x, y, width, height } = (item ?? {}) as Record<string, unknown>;
+    if (!Number.isInteger(page) || (page as number) < 1 || (page as number) > pageCount) {
+      return { error: `Redaction pages must be from 1 to ${pageCount}.` };
+    }
+    if (
+      !isFraction(x) ||
+      !isFraction(y) ||
+      !isFraction(width) ||
+      !isFraction(height) ||
+      width === 0 ||
+      height === 0 ||
+      // Allow for rounding in the sums.
+      x + width > 1 + 1e-9 ||
+      y + height > 1 + 1e-9
+    ) {
+      return { error: "Redaction boxes must be fractions of the page that fit within it." };
+    }
+    redactions.push({ page: page as number, x, y, width, height });
+  }
+  return { redactions };
+}
+
+const pageRotations = [0, 90, 180, 270];
+
+/**
+ * Reads a document's page selection from a request body: a list of
+ * `{ page, rotate }` in export order, or null to export every page upright.
+ */
+export function parsePageSelection(
+  input: unknown,
+  pageCount: number,
+): { pages: DocumentPage[] | null } | { error: string } {
+  if (input === null) {
+    return { pages: null };
+  }
+  if (!Array.isArray(input) || input.length === 0) {
+    return { error: "pages must be a list with at least one page, or null." };
+  }
+  const pages: DocumentPage[] = [];
+  const seen = new Set<number>();
+  for (const item of input) {
+    const { page, rotate = 0 } = (item ?? {}) as Record<string, unknown>;
+    if (!Number.isInteger(page) || (page as number) < 1 || (page as number) > pageCount) {
+      return { error: `Pages must be from 1 to ${pageCount}.` };
+    }
+    if (seen.has(page as number)) {
+      return { error: `Page ${page} is listed more than once.` };
+    }
+    if (!pageRotations.includes(rotate as number)) {
+      return { error: "rotate must be 0, 90, 180 or 270." };
+    }
+    seen.add(page as number);
+    pages.push(
+      rotate === 0
+        ? { page: page as number }
+        : { page: page as number, rotate: rotate as DocumentPage["rotate"] },
+    );
+  }
+  return { pages };
+}
@@ -0,0 +1,208 @@
+import crypto from "crypto";
+import { existsSync, promises as fs } from "fs";
+import path from "path";
+import { encryptionConfigPath } from "./paths";
+import { isMissingFileError } from "./repositories/shared";
+
+/**
+ * Everything needed to re-derive the key from the passphrase. The key itself
+ * is never written anywhere; `check` is a known value encrypted with it so a
+ * wrong passphrase can be told apart from a right one.
+ */
+export type EncryptionConfig = {
+  version: 1;
+  kdf: "scrypt";
+  salt: string;
+  cost: number;
+  blockSize: number;
+  parallelization: number;
+  check: string;
+};
+
+export type EncryptionStatus = {
+  enabled: boolean;
+  unlocked: boolean;
+};
+
+export class StoreLockedError extends Error {
+  constructor() {
+    super("The store is locked. Unlock it with your passphrase first.");
+  }
+}
+
+// Sealed data is laid out as magic | iv | auth tag | ciphertext. The magic
+// marks a blob as encrypted, so plain files left from before encryption was
+// turned on can still be read.
+const magic = Buffer.from("AHE1");
+const ivLength = 12;
+const tagLength = 16;
+const keyLength = 32;
+const textPrefix = "encrypted:";
+const checkValue = "address-history";
+
+const keyHolderKey = Symbol.for("address-history.encryptionKey");
+type KeyHolder = { [keyHolderKey]?: Buffer | null };
+
+export function isEncrypted(data: Buffer) {
+  return data.length >= magic.length && data.subarray(0, magic.length).equals(magic);
+}
+
+export function encryptBuffer(key: Buffer, data: Buffer) {
+  const iv = crypto.randomBytes(ivLength);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(data), cipher.final()]);
+  return Buffer.concat([magic, iv, cipher.getAuthTag(), ciphertext]);
+}
+
+/** Throws if the data was not sealed with this key or has been tampered with. */
+export function decryptBuffer(key: Buffer, data: Buffer) {
+  if (!isEncrypted(data)) {
+    throw new Error("Data is not encrypted.");
+  }
+  const ivStart = magic.length;
+  const tagStart = ivStart + ivLength;
+  const bodyStart = tagStart + tagLength;
+  const decipher = crypto.createDecipheriv(
+    "aes-256-gcm",
+    key,
+    data.subarray(ivStart, tagStart),
+  );
+  decipher.setAuthTag(data.subarray(tagStart, bodyStart));
+  return Buffer.concat([decipher.update(data.subarray(bodyStart)), decipher.final()]);
+}
+
+export function isEncryptedText(text: string) {
+  return text.startsWith(textPrefix);
+}
+
+export function encryptText(key: Buffer, text: string) {
+  return textPrefix + encryptBuffer(key, Buffer.from(text, "utf-8")).toString("base64");
+}
+
+export function decryptText(key: Buffer, text: string) {
+  return decryptBuffer(
+    key,
+    Buffer.from(text.slice(textPrefix.length), "base64"),
+  ).toString("utf-8");
+}
+
+export function deriveKey(passphrase: string, config: EncryptionConfig) {
+  return new Promise<Buffer>((resolve, reject) => {
+    crypto.scrypt(
+      passphrase,
+      Buffer.from(config.salt, "base64"),
+      keyLength,
+      {
+        N: config.cost,
+        r: config.blockSize,
+        p: config.parallelization,
+        maxmem: 256 * config.cost * config.blockSize,
+      },
+      (error, key) => (error ? reject(error) : resolve(key)),
+    );
+  });
+}
+
+/** Returns the key if the passphrase is the one the config was made with. */
+export async function verifyPassphrase(passphrase: string, config: EncryptionConfig) {
+  const key = await deriveKey(passphrase, config);
+  try {
+    return decryptText(key, config.check) === checkValue ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function createEncryptionConfig(passphrase: string) {
+  const draft = {
+    version: 1 as const,
+    kdf: "scrypt" as const,
+    salt: crypto.randomBytes(16).toString("base64"),
+    cost: 2 ** 15,
+    blockSize: 8,
+    parallelization: 1,
+  };
+  const key = await deriveKey(passphrase, { ...draft, check: "" });
+  const config: EncryptionConfig = { ...draft, check: encryptText(key, checkValue) };
+  return { config, key };
+}
+
+export async function readEncryptionConfig(configPath = encryptionConfigPath) {
+  try {
+    return JSON.parse(await fs.readFile(configPath, "utf-8")) as EncryptionConfig;
+  } catch (error: unknown) {
+    if (isMissingFileError(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function writeEncryptionConfig(
+  config: EncryptionConfig,
+  configPath = encryptionConfigPath,
+) {
+  await fs.mkdir(path.dirname(configPath), { recursive: true });
+  await fs.writeFile(configPath, JSON.stringify(config, null, 2), "utf-8");
+}
+
+export function isEncryptionEnabled() {
+  return existsSync(encryptionConfigPath);
+}
+
+function getKey() {
+  return (globalThis as KeyHolder)[keyHolderKey] ?? null;
+}
+
+export function isUnlocked() {
+  return getKey() !== null;
+}
+
+export function getEncryptionStatus(): EncryptionStatus {
+  return { enabled: isEncryptionEnabled(), unlocked: isUnlocked() };
+}
+
+/** Keeps the derived key in memory if the passphrase is right. */
+export async function unlock(passphrase: string) {
+  const config = await readEncryptionConfig();
+  if (!config) {
+    return false;
+  }
+  const key = await verifyPassphrase(passphrase, config);
+  if (!key) {
+    return false;
+  }
+  (globalThis as KeyHolder)[keyHolderKey] = key;
+  return true;
+}
+
+export function lock() {
+  getKey()?.fill(0);
+  (globalThis as KeyHolder)[keyHolderKey] = null;
+}
+
+function requireKey() {
+  const key = getKey();
+  if (!key) {
+    throw new StoreLockedError();
+  }
+  return key;
+}
+
+/** Encrypts data for writing when encryption is on; passes it through otherwise. */
+export function sealData(data: Buffer) {
+  return isEncryptionEnabled() ? encryptBuffer(requireKey(), data) : data;
+}
+
+/** Decrypts data read from disk; plain data is returned as it is. */
+export function openData(data: Buffer) {
+  return isEncrypted(data) ? decryptBuffer(requireKey(), data) : data;
+}
+
+export function sealText(text: string) {
+  return isEncryptionEnabled() ? encryptText(requireKey(), text) : text;
+}
+
+export function openText(text: string) {
+  return isEncryptedText(text) ? decryptText(requireKey(), text) : text;
+}
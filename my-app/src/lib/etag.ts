@@ -0,0 +1,16 @@
+/** Entity tag for a record, derived from its `updatedAt` timestamp. */
+export function toEtag(updatedAt: string) {
+  return `"${updatedAt}"`;
+}
+
+/**
+ * Checks an `If-Match` header against a record's `updatedAt`. Accepts `*`,
+ * comma-separated lists and weak tags, as browsers and proxies may send them.
+ */
+export function etagMatches(header: string, updatedAt: string) {
+  const expected = toEtag(updatedAt);
+  return header
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .some((tag) => tag === "*" || tag === expected);
+}
@@ -0,0 +1,101 @@
+import { addDays, formatDate, parseDate } from "./dates";
+import type { DateRange } from "./gaps";
+import type { Address, DocumentMeta } from "./storage";
+
+export type EvidenceRule = {
+  /** Length of each slice of residence that needs its own proof. */
+  sliceMonths: number;
+  /** Documents dated inside a slice required for it to count as covered. */
+  minDocuments: number;
+};
+
+export type EvidenceGap = {
+  addressId: string;
+  start: string;
+  end: string;
+};
+
+export const defaultEvidenceRule: EvidenceRule = {
+  sliceMonths: 12,
+  minDocuments: 1,
+};
+
+function addMonths(date: Date, months: number) {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const day = date.getUTCDate();
+  const candidate = new Date(Date.UTC(year, month, day));
+  if (candidate.getUTCDate() !== day) {
+    return new Date(Date.UTC(year, month + 1, 0));
+  }
+  return candidate;
+}
+
+/**
+ * The date a document proves residence on: its issue date when one was
+ * entered, otherwise the day it was uploaded.
+ */
+export function getEvidenceDate(document: DocumentMeta) {
+  return document.issueDate ?? document.uploadedAt.slice(0, 10);
+}
+
+/**
+ * Splits every address period inside the range into consecutive slices of
+ * `rule.sliceMonths` and reports the slices that have fewer than
+ * `rule.minDocuments` documents dated inside them. A slice includes its
+ * anniversary, so a period that ends on its moving day is not left with a
+ * one-day slice. Adjacent unproven slices of the same address are merged,
+ * mirroring how `getCoverageGaps` reports residence gaps.
+ */
+export function getEvidenceGaps(
+  addresses: Address[],
+  documents: DocumentMeta[],
+  range: DateRange,
+  rule: EvidenceRule = defaultEvidenceRule,
+): EvidenceGap[] {
+  const rangeStart = parseDate(range.start);
+  const rangeEnd = parseDate(range.end);
+  if (!rangeStart || !rangeEnd || rangeEnd < rangeStart || rule.sliceMonths < 1) {
+    return [];
+  }
+
+  const datesByAddress = new Map<string, string[]>();
+  for (const doc of documents) {
+    const list = datesByAddress.get(doc.addressId) ?? [];
+    list.push(getEvidenceDate(doc));
+    datesByAddress.set(doc.addressId, list);
+  }
+
+  const gaps: EvidenceGap[] = [];
+  const ordered = [...addresses].sort((a, b) => a.startDate.localeCompare(b.startDate));
+  for (const address of ordered) {
+    const addressStart = parseDate(address.startDate);
+    const addressEnd = parseDate(address.endDate ?? range.end);
+    if (!addressStart || !addressEnd || addressEnd < rangeStart || addressStart > rangeEnd) {
+      continue;
+    }
+    const periodStart = addressStart < rangeStart ? rangeStart : addressStart;
+    const periodEnd = addressEnd > rangeEnd ? rangeEnd : addressEnd;
+    const dates = datesByAddress.get(address.id) ?? [];
+
+    let current: EvidenceGap | null = null;
+    let sliceStart = periodStart;
+    while (sliceStart <= periodEnd) {
+      const anniversary = addMonths(sliceStart, rule.sliceMonths);
+      const sliceEnd = anniversary < periodEnd ? anniversary : periodEnd;
+      const start = formatDate(sliceStart);
+      const end = formatDate(sliceEnd);
+      const proofCount = dates.filter((date) => date >= start && date <= end).length;
+      if (proofCount >= rule.minDocuments) {
+        current = null;
+      } else if (current) {
+        current.end = end;
+      } else {
+        current = { addressId: address.id, start, end };
+        gaps.push(current);
+      }
+      sliceStart = addDays(sliceEnd, 1);
+    }
+  }
+  return gaps;
+}
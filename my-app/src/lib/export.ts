@@ -0,0 +1,171 @@
+import JSZip from "jszip";
+import { isIsoDate, parseDate } from "./dates";
+import type { DateRange } from "./gaps";
+import type { ExportWarning } from "./exportWarnings";
+import { classifyExportError, toExportWarning } from "./exportWarnings";
+import { getLookbackRange, isLookbackPreset } from "./gaps";
+import { isPdfText, pdfTextError } from "./pdfText";
+import type { ImageQuality } from "./imageQuality";
+import { isImageQuality } from "./imageQuality";
+import type { Address, DocumentMeta, GapAnnotation, Profile } from "./storage";
+import { getProfileData, readUploadFile, sortAddresses } from "./storage";
+
+type ExportZipInput = {
+  profile: Profile;
+  addresses: Address[];
+  documents: DocumentMeta[];
+  gapAnnotations: GapAnnotation[];
+};
+
+function addressOverlapsRange(
+  startDate: string,
+  endDate: string | undefined,
+  rangeStart: string,
+  rangeEnd: string,
+) {
+  const addressStart = parseDate(startDate);
+  const addressEnd = parseDate(endDate ?? rangeEnd);
+  const start = parseDate(rangeStart);
+  const end = parseDate(rangeEnd);
+  if (!addressStart || !addressEnd || !start || !end) {
+    return false;
+  }
+  return addressStart <= end && addressEnd >= start;
+}
+
+/**
+ * Works out the export range from query parameters. A fixed `preset`
+ * (3y, 5y, 10y) wins over `start`/`end`; `custom` or no preset uses them,
+ * defaulting to the last three years.
+ */
+export function resolveExportRange(
+  searchParams: URLSearchParams,
+): { range: DateRange } | { error: string } {
+  const preset = searchParams.get("preset") ?? "custom";
+  if (!isLookbackPreset(preset)) {
+    return { error: "Unknown preset. Use 3y, 5y, 10y or custom." };
+  }
+  const fallback = getLookbackRange("3y");
+  const range = getLookbackRange(preset, {
+    custom: {
+      start: searchParams.get("start") ?? fallback.start,
+      end: searchParams.get("end") ?? fallback.end,
+    },
+  });
+  if (!isIsoDate(range.start) || !isIsoDate(range.end)) {
+    return { error: "start and end must be YYYY-MM-DD dates." };
+  }
+  if (range.start > range.end) {
+    return { error: "start must be on or before end." };
+  }
+  return { range };
+}
+
+export const maxWatermarkLength = 120;
+
+/** Checks the optional watermark for a PDF export; blank means none. */
+export function parseWatermark(value: unknown): { watermark?: string } | { error: string } {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  if (typeof value !== "string") {
+    return { error: "watermark must be text." };
+  }
+  const watermark = value.trim();
+  if (watermark.length > maxWatermarkLength) {
+    return { error: `watermark must be at most ${maxWatermarkLength} characters.` };
+  }
+  if (!isPdfText(watermark)) {
+    return { error: `watermark ${pdfTextError}` };
+  }
+  return watermark ? { watermark } : {};
+}
+
+const maxExportSizeMb = 500;
+
+/**
+ * Reads the PDF export's image options: `imageQuality` (original, high,
+ * medium or low) and `maxSizeMb`, a file size to bring the export under.
+ */
+export function parseImageOptions(
+  searchParams: URLSearchParams,
+): { imageQuality?: ImageQuality; maxBytes?: number } | { error: string } {
+  const quality = searchParams.get("imageQuality") || undefined;
+  if (quality !== undefined && !isImageQuality(quality)) {
+    return { error: "imageQuality must be original, high, medium or low." };
+  }
+  const maxSize = searchParams.get("maxSizeMb");
+  if (!maxSize) {
+    return { imageQuality: quality };
+  }
+  const megabytes = Number(maxSize);
+  if (!Number.isFinite(megabytes) || megabytes <= 0 || megabytes > maxExportSizeMb) {
+    return { error: `maxSizeMb must be a number above 0 and up to ${maxExportSizeMb}.` };
+  }
+  return { imageQuality: quality, maxBytes: Math.floor(megabytes * 1024 * 1024) };
+}
+
+export async function getExportData(profileId: string, start: string, end: string) {
+  const { addresses, documents, gapAnnotations } = await getProfileData(profileId);
+  const filteredAddresses = sortAddresses(
+    addresses.filter((address) =>
+      addressOverlapsRange(address.startDate, address.endDate, start, end),
+    ),
+  );
+  const addressIds = new Set(filteredAddresses.map((address) => address.id));
+  const filteredDocuments = documents.filter((doc) =>
+    addressIds.has(doc.addressId),
+  );
+  return {
+    addresses: filteredAddresses,
+    documents: filteredDocuments,
+    gapAnnotations,
+  };
+}
+
+function sanitizeFilename(name: string) {
+  return name.replace(/[^a-zA-Z0-9._-]/g, "_");
+}
+
+/**
+ * The ZIP export: `addresses.json` plus every document under `documents/`.
+ * Files that cannot be read are left out and listed in `warnings.json`.
+ */
+export async function buildExportZip({
+  profile,
+  addresses,
+  documents,
+  gapAnnotations,
+}: ExportZipInput) {
+  const zip = new JSZip();
+  zip.file(
+    "addresses.json",
+    JSON.stringify({ profile, addresses, documents, gapAnnotations }, null, 2),
+  );
+
+  const warnings: ExportWarning[] = [];
+  const docsFolder = zip.folder("documents");
+  if (docsFolder) {
+    for (const doc of documents) {
+      let buffer: Buffer;
+      try {
+        buffer = await readUploadFile(doc);
+      } catch (error) {
+        warnings.push(
+          toExportWarning(
+            { documentId: doc.id, name: doc.originalName },
+            classifyExportError(error),
+          ),
+        );
+        continue;
+      }
+      const safeName = sanitizeFilename(doc.originalName);
+      docsFolder.file(`${doc.id}-${safeName}`, buffer);
+    }
+  }
+  if (warnings.length > 0) {
+    zip.file("warnings.json", JSON.stringify(warnings, null, 2));
+  }
+
+  return { output: await zip.generateAsync({ type: "nodebuffer" }), warnings };
+}
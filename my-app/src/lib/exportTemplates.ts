@@ -0,0 +1,115 @@
+import { isIsoDate } from "./dates";
+import { isPdfText, pdfTextError } from "./pdfText";
+import type { ExportTemplate, TemplateImageUpload } from "./storage";
+
+export type ExportTemplateFields = Pick<
+  ExportTemplate,
+  | "name"
+  | "title"
+  | "applicantName"
+  | "dateOfBirth"
+  | "reference"
+  | "coverText"
+  | "includeDeclaration"
+  | "declarationText"
+>;
+
+export const defaultExportTitle = "UK Address History Export";
+export const defaultDeclarationText =
+  "I confirm this history is accurate and complete to the best of my knowledge.";
+
+/** Logos and signatures are embedded in the PDF, which takes PNG or JPEG. */
+export const templateImageTypes = new Set(["image/png", "image/jpeg"]);
+export const maxTemplateImageBytes = 2 * 1024 * 1024;
+
+const textFields: {
+  field: keyof ExportTemplateFields;
+  label: string;
+  maxLength: number;
+  multiline?: boolean;
+}[] = [
+  { field: "title", label: "Title", maxLength: 120 },
+  { field: "applicantName", label: "Applicant name", maxLength: 120 },
+  { field: "reference", label: "Reference", maxLength: 60 },
+  { field: "coverText", label: "Cover text", maxLength: 2000, multiline: true },
+  { field: "declarationText", label: "Declaration", maxLength: 1000, multiline: true },
+];
+
+/**
+ * Reads a template's text fields from a request body or form. Every field is
+ * replaced: one left out or empty is cleared. `includeDeclaration` accepts a
+ * boolean or the strings "true" and "false" that a form sends.
+ */
+export function parseExportTemplateFields(
+  input: Record<string, unknown>,
+): { fields: ExportTemplateFields } | { error: string } {
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name) {
+    return { error: "A template name is required." };
+  }
+  if (name.length > 80) {
+    return { error: "Template name must be at most 80 characters." };
+  }
+  const fields: ExportTemplateFields = { name, includeDeclaration: false };
+
+  for (const { field, label, maxLength, multiline } of textFields) {
+    const raw = input[field];
+    if (raw !== undefined && raw !== null && typeof raw !== "string") {
+      return { error: `${label} must be text.` };
+    }
+    const value = raw?.trim();
+    if (!value) {
+      continue;
+    }
+    if (value.length > maxLength) {
+      return { error: `${label} must be at most ${maxLength} characters.` };
+    }
+    // Every text field is drawn in the PDF.
+    if (!isPdfText(value, multiline)) {
+      return { error: `${label} ${pdfTextError}` };
+    }
+    (fields as Record<string, unknown>)[field] = value;
+  }
+
+  const dateOfBirth = typeof input.dateOfBirth === "string" ? input.dateOfBirth.trim() : "";
+  if (dateOfBirth) {
+    if (!isIsoDate(dateOfBirth)) {
+      return { error: "Date of birth must be a YYYY-MM-DD date." };
+    }
+    fields.dateOfBirth = dateOfBirth;
+  }
+
+  const include = input.includeDeclaration;
+  if (
+    include !== undefined &&
+    typeof include !== "boolean" &&
+    include !== "true" &&
+    include !== "false"
+  ) {
+    return { error: "includeDeclaration must be true or false." };
+  }
+  fields.includeDeclaration = include === true || include === "true";
+  return { fields };
+}
+
+/**
+ * Reads the logo or signature part of a template form: a new file replaces
+ * the image, `remove<Field>=true` clears it and neither keeps it as it is.
+ */
+export async function readTemplateImage(
+  formData: FormData,
+  field: "logo" | "signature",
+): Promise<{ image?: TemplateImageUpload | null } | { error: string }> {
+  const file = formData.get(field);
+  if (file instanceof File && file.size > 0) {
+    if (!templateImageTypes.has(file.type)) {
+      return { error: `The ${field} must be a PNG or JPG image.` };
+    }
+    if (file.size > maxTemplateImageBytes) {
+      return { error: `The ${field} must be at most 2 MB.` };
+    }
+    return { image: { data: await file.arrayBuffer(), mimeType: file.type } };
+  }
+  const removeField = `remove${field[0].toUpperCase()}${field.slice(1)}`;
+  return formData.get(removeField) === "true" ? { image: null } : {};
+}
@@ -0,0 +1,120 @@
+import { PDFDocument } from "pdf-lib";
+import { allowedDocumentTypes } from "./documents";
+import { isMissingFileError } from "./repositories/shared";
+import type { DocumentMeta } from "./storage";
+import { readUploadFile } from "./storage";
+
+export type ExportProblem = "missing" | "encrypted" | "corrupt" | "unsupported";
+
+/** Something left out of an export, and why. */
+export type ExportWarning = {
+  /** The document concerned; absent for a template's logo or signature. */
+  documentId?: string;
+  name: string;
+  problem: ExportProblem;
+  message: string;
+};
+
+/** Raised for a document type the PDF export cannot draw. */
+export class UnsupportedDocumentError extends Error {}
+
+/** Raised for a password-protected PDF, which the PDF export cannot copy pages from. */
+export class EncryptedDocumentError extends Error {}
+
+const problemMessages: Record<ExportProblem, string> = {
+  missing: "The uploaded file could not be found.",
+  encrypted: "The PDF is password protected. Upload a copy without a password to include it.",
+  corrupt: "The file is damaged or is not the PDF, PNG or JPEG it claims to be.",
+  unsupported: "Only PDF, PNG and JPEG files can be added to the PDF.",
+};
+
+/** Sorts an error from reading or embedding a file into one of the export problems. */
+export function classifyExportError(error: unknown): ExportProblem {
+  if (isMissingFileError(error)) {
+    return "missing";
+  }
+  if (error instanceof EncryptedDocumentError) {
+    return "encrypted";
+  }
+  if (error instanceof UnsupportedDocumentError) {
+    return "unsupported";
+  }
+  return "corrupt";
+}
+
+export function toExportWarning(
+  subject: { documentId?: string; name: string },
+  problem: ExportProblem,
+): ExportWarning {
+  return { ...subject, problem, message: problemMessages[problem] };
+}
+
+/**
+ * Serialises warnings for a response header. Non-ASCII characters in file
+ * names are escaped, since header values have to be ASCII.
+ */
+export function formatWarningsHeader(warnings: ExportWarning[]) {
+  return JSON.stringify(warnings).replace(
+    /[^\x20-\x7e]/g,
+    (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, "0")}`,
+  );
+}
+
+/**
+ * Parses a PDF for the export. pdf-lib's own encryption error does not
+ * survive `instanceof`, so encryption is checked here instead.
+ */
+export async function loadExportPdf(data: Buffer) {
+  const pdf = await PDFDocument.load(data, { ignoreEncryption: true });
+  if (pdf.isEncrypted) {
+    throw new EncryptedDocumentError("The PDF is encrypted.");
+  }
+  return pdf;
+}
+
+/**
+ * Opens a stored file the way the PDF export will: PDFs are parsed and
+ * images embedded in a scratch document. Throws whatever that runs into.
+ */
+export async function loadForExport(file: Pick<DocumentMeta, "storedName" | "mimeType">) {
+  if (!allowedDocumentTypes.has(file.mimeType)) {
+    throw new UnsupportedDocumentError(`Cannot export ${file.mimeType} files.`);
+  }
+  const data = await readUploadFile(file);
+  if (file.mimeType === "application/pdf") {
+    await loadExportPdf(data);
+  } else {
+    const scratch = await PDFDocument.create();
+    await (file.mimeType === "image/png" ? scratch.embedPng(data) : scratch.embedJpg(data));
+  }
+  return data;
+}
+
+/**
+ * Finds the documents that would be left out of an export, without building
+ * it. The ZIP export only needs the files to be there, so for it only
+ * missing files count.
+ */
+export async function checkExportDocuments(
+  documents: DocumentMeta[],
+  format: "pdf" | "zip",
+) {
+  const warnings: ExportWarning[] = [];
+  for (const doc of documents) {
+    try {
+      if (format === "pdf") {
+        await loadForExport(doc);
+      } else {
+        await readUploadFile(doc);
+      }
+    } catch (error) {
+      warnings.push(
+        toExportWarning(
+          { documentId: doc.id, name: doc.originalName },
+          classifyExportError(error),
+        ),
+      );
+    }
+  }
+  return warnings;
+}
@@ -1,10 +1,26 @@
-import type { Address } from "./storage";
+import { addDays, formatDate, parseDate } from "./dates";
+import type { Address, GapAnnotation } from "./storage";
 
 export type DateRange = {
   start: string;
   end: string;
 };
 
+export type LookbackPreset = "3y" | "5y" | "10y" | "custom";
+
+export type LookbackPresetOption = {
+  id: LookbackPreset;
+  label: string;
+  years?: number;
+};
+
+export const lookbackPresets: LookbackPresetOption[] = [
+  { id: "3y", label: "Last 3 years", years: 3 },
+  { id: "5y", label: "Last 5 years (security vetting)", years: 5 },
+  { id: "10y", label: "Last 10 years (visa applications)", years: 10 },
+  { id: "custom", label: "Custom range" },
+];
+
 export type Gap = {
   start: string;
   end: string;
@@ -12,23 +28,23 @@ export type Gap = {
   isTrailing: boolean;
 };
 
-function parseDate(value: string) {
-  const [year, month, day] = value.split("-").map((part) => Number(part));
-  if (!year || !month || !day) {
-    return null;
-  }
-  return new Date(Date.UTC(year, month - 1, day));
-}
+export type AnnotatedGap = Gap & {
+  annotation?: GapAnnotation;
+};
 
-function formatDate(date: Date) {
-  return date.toISOString().slice(0, 10);
-}
+export type Overlap = {
+  firstId: string;
+  secondId: string;
+  start: string;
+  end: string;
+  days: number;
+  allowed: boolean;
+};
 
-function addDays(date: Date, days: number) {
-  const copy = new Date(date);
-  copy.setUTCDate(copy.getUTCDate() + days);
-  return copy;
-}
+/** Gap explanations are printed in the PDF export under the gap. */
+export const maxGapExplanationLength = 1000;
+
+const dayMs = 24 * 60 * 60 * 1000;
 
 function clampDate(date: Date, min: Date, max: Date) {
   if (date < min) {
@@ -51,12 +67,39 @@ function subtractYears(date: Date, years: number) {
   return candidate;
 }
 
-export function getLastThreeYearsRange(today = new Date()): DateRange {
+export function isLookbackPreset(value: unknown): value is LookbackPreset {
+  return lookbackPresets.some((preset) => preset.id === value);
+}
+
+export function getLookbackPreset(preset: LookbackPreset) {
+  return lookbackPresets.find((option) => option.id === preset) ?? lookbackPresets[0];
+}
+
+export function getLastYearsRange(years: number, today = new Date()): DateRange {
   const end = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()));
-  const start = subtractYears(end, 3);
+  const start = subtractYears(end, years);
   return { start: formatDate(start), end: formatDate(end) };
 }
 
+/**
+ * Resolves a preset to the date range it covers. `custom` uses the supplied
+ * range as-is and falls back to the last three years when none is given.
+ */
+export function getLookbackRange(
+  preset: LookbackPreset,
+  { today = new Date(), custom }: { today?: Date; custom?: DateRange } = {},
+): DateRange {
+  const years = getLookbackPreset(preset).years;
+  if (years) {
+    return getLastYearsRange(years, today);
+  }
+  return custom ?? getLastYearsRange(3, today);
+}
+
+export function getLastThreeYearsRange(today = new Date()): DateRange {
+  return getLastYearsRange(3, today);
+}
+
 export function getCoverageGaps(addresses: Address[], range: DateRange): Gap[] {
   const startDate = parseDate(range.start);
   const endDate = parseDate(range.end);
@@ -145,7 +188,89 @@ export function getCoverageGaps(addresses: Address[], range: DateRange): Gap[] {
   return gaps;
 }
 
+export function getLookbackGaps(
+  addresses: Address[],
+  preset: LookbackPreset,
+  options: { today?: Date; custom?: DateRange } = {},
+) {
+  return getCoverageGaps(addresses, getLookbackRange(preset, options));
+}
+
+/**
+ * Pairs each gap with the annotation that explains it. An annotation covers a
+ * gap when its range spans the whole gap, so an explanation survives the gap
+ * shrinking after an address is edited.
+ */
+export function annotateGaps(gaps: Gap[], annotations: GapAnnotation[]): AnnotatedGap[] {
+  return gaps.map((gap) => ({
+    ...gap,
+    annotation: annotations.find(
+      (annotation) => annotation.start <= gap.start && annotation.end >= gap.end,
+    ),
+  }));
+}
+
 export function getLastThreeYearGaps(addresses: Address[], today = new Date()) {
-  const range = getLastThreeYearsRange(today);
-  return getCoverageGaps(addresses, range);
+  return getLookbackGaps(addresses, "3y", { today });
+}
+
+/**
+ * Finds every pair of addresses whose periods overlap inside the range.
+ * `days` counts both ends inclusively; a single shared moving day is not
+ * reported. An overlap is `allowed` when either
+ * address is marked as an intentional overlap (for example a term-time
+ * address alongside the family home).
+ */
+export function getAddressOverlaps(addresses: Address[], range: DateRange): Overlap[] {
+  const startDate = parseDate(range.start);
+  const endDate = parseDate(range.end);
+  if (!startDate || !endDate || endDate < startDate) {
+    return [];
+  }
+
+  const periods = addresses
+    .map((address) => {
+      const start = parseDate(address.startDate);
+      const end = parseDate(address.endDate ?? range.end);
+      if (!start || !end || end < start || end < startDate || start > endDate) {
+        return null;
+      }
+      return {
+        address,
+        start: clampDate(start, startDate, endDate),
+        end: clampDate(end, startDate, endDate),
+      };
+    })
+    .filter((period): period is { address: Address; start: Date; end: Date } =>
+      Boolean(period),
+    )
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const overlaps: Overlap[] = [];
+  for (let index = 0; index < periods.length; index += 1) {
+    const first = periods[index];
+    for (let other = index + 1; other < periods.length; other += 1) {
+      const second = periods[other];
+      if (second.start > first.end) {
+        break;
+      }
+      const overlapEnd = first.end < second.end ? first.end : second.end;
+      if (
+        overlapEnd.getTime() === second.start.getTime() &&
+        overlapEnd.getTime() === first.end.getTime()
+      ) {
+        // Moving day: one address ends on the day the next one starts.
+        continue;
+      }
+      overlaps.push({
+        firstId: first.address.id,
+        secondId: second.address.id,
+        start: formatDate(second.start),
+        end: formatDate(overlapEnd),
+        days: Math.round((overlapEnd.getTime() - second.start.getTime()) / dayMs) + 1,
+        allowed: Boolean(first.address.allowOverlap || second.address.allowOverlap),
+      });
+    }
+  }
+  return overlaps;
 }
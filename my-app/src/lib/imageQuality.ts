@@ -0,0 +1,33 @@
+export type ImageQuality = "original" | "high" | "medium" | "low";
+
+/**
+ * How photos are embedded in the PDF export, best first. Every preset but
+ * `original` resamples images to `dpi` at the size they are shown on the
+ * page and re-encodes them as JPEG at `jpegQuality`.
+ */
+export const imageQualities: {
+  id: ImageQuality;
+  label: string;
+  dpi?: number;
+  jpegQuality?: number;
+}[] = [
+  { id: "original", label: "Original images" },
+  { id: "high", label: "High (200 dpi)", dpi: 200, jpegQuality: 85 },
+  { id: "medium", label: "Medium (150 dpi)", dpi: 150, jpegQuality: 75 },
+  { id: "low", label: "Low (100 dpi)", dpi: 100, jpegQuality: 60 },
+];
+
+export function isImageQuality(value: unknown): value is ImageQuality {
+  return imageQualities.some((quality) => quality.id === value);
+}
+
+export function getImageQuality(id: ImageQuality = "original") {
+  return imageQualities.find((quality) => quality.id === id) ?? imageQualities[0];
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
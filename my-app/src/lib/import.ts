@@ -0,0 +1,342 @@
+import JSZip from "jszip";
+import { validateAddressInput } from "./addressValidation";
+import { allowedDocumentTypes, parseDocumentDetails } from "./documents";
+import { maxGapExplanationLength } from "./gaps";
+import type { Address, DocumentMeta, GapAnnotation } from "./storage";
+import { buildStoredName, getProfileData, importProfileData } from "./storage";
+import { validateRecord } from "./schema";
+
+export type ImportMode = "merge" | "restore";
+
+export type ImportItem = {
+  kind: "address" | "document" | "gapAnnotation";
+  action: "add" | "duplicate" | "invalid" | "remove";
+  label: string;
+  reason?: string;
+};
+
+export type ImportResult = {
+  mode: ImportMode;
+  dryRun: boolean;
+  summary: {
+    addressesAdded: number;
+    addressesSkipped: number;
+    addressesRemoved: number;
+    documentsAdded: number;
+    documentsSkipped: number;
+    documentsRemoved: number;
+    gapAnnotationsAdded: number;
+    gapAnnotationsSkipped: number;
+    gapAnnotationsRemoved: number;
+  };
+  items: ImportItem[];
+};
+
+/** Raised when the uploaded file is not a usable export archive. */
+export class ImportArchiveError extends Error {}
+
+type ArchivedRecord = Record<string, unknown>;
+
+function normalizeKeyPart(value: unknown) {
+  return typeof value === "string" ? value.toLowerCase().replace(/\s+/g, "") : "";
+}
+
+function addressKey(address: ArchivedRecord) {
+  return [
+    normalizeKeyPart(address.line1),
+    normalizeKeyPart(address.postcode),
+    address.startDate ?? "",
+    address.endDate ?? "",
+  ].join("|");
+}
+
+function documentKey(addressId: string, originalName: unknown, size: number) {
+  return `${addressId}|${String(originalName)}|${size}`;
+}
+
+// Keeps the archived timestamp when there is one.
+function archivedTime(value: unknown, now: string) {
+  return typeof value === "string" ? value : now;
+}
+
+function describeAddress(address: ArchivedRecord) {
+  const parts = [address.line1, address.postcode].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : "Unnamed address";
+}
+
+// A profile has one explanation per gap range.
+function gapAnnotationKey(annotation: ArchivedRecord) {
+  return `${String(annotation.start)}|${String(annotation.end)}`;
+}
+
+function describeGapAnnotation(annotation: ArchivedRecord) {
+  return `${String(annotation.start ?? "?")} to ${String(annotation.end ?? "?")}`;
+}
+
+async function readArchive(data: ArrayBuffer) {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new ImportArchiveError("The upload is not a valid ZIP file.");
+  }
+  const manifest = zip.file("addresses.json");
+  if (!manifest) {
+    throw new ImportArchiveError("The archive has no addresses.json.");
+  }
+  let parsed: { addresses?: unknown; documents?: unknown; gapAnnotations?: unknown };
+  try {
+    parsed = JSON.parse(await manifest.async("string"));
+  } catch {
+    throw new ImportArchiveError("addresses.json is not valid JSON.");
+  }
+  if (!Array.isArray(parsed.addresses)) {
+    throw new ImportArchiveError("addresses.json has no addresses list.");
+  }
+  const documents = Array.isArray(parsed.documents) ? parsed.documents : [];
+  const gapAnnotations = Array.isArray(parsed.gapAnnotations) ? parsed.gapAnnotations : [];
+  return {
+    zip,
+    addresses: parsed.addresses as ArchivedRecord[],
+    documents: documents as ArchivedRecord[],
+    gapAnnotations: gapAnnotations as ArchivedRecord[],
+  };
+}
+
+// Exported files are named `<documentId>-<sanitized name>`, so the id prefix
+// is enough to find a document's bytes.
+function findArchivedFile(zip: JSZip, documentId: unknown) {
+  if (typeof documentId !== "string") {
+    return null;
+  }
+  const prefix = `documents/${documentId}-`;
+  return zip.filter((relativePath) => relativePath.startsWith(prefix))[0] ?? null;
+}
+
+/**
+ * Restores or merges a ZIP produced by `/api/export/zip` into a profile.
+ * Every imported record gets a fresh id and documents are re-linked to the
+ * new (or matching existing) address. In `merge` mode addresses, documents
+ * and gap explanations that already exist are skipped; `restore` replaces
+ * the profile's history with the archive. A dry run reports the plan
+ * without writing.
+ */
+export async function importZipArchive({
+  profileId,
+  data,
+  mode,
+  dryRun,
+}: {
+  profileId: string;
+  data: ArrayBuffer;
+  mode: ImportMode;
+  dryRun: boolean;
+}): Promise<ImportResult> {
+  const archive = await readArchive(data);
+  const existing = await getProfileData(profileId);
+  const items: ImportItem[] = [];
+  const now = new Date().toISOString();
+
+  const addressIdsByKey = new Map<string, string>();
+  const documentKeys = new Set<string>();
+  const gapAnnotationKeys = new Set<string>();
+  if (mode === "merge") {
+    for (const address of existing.addresses) {
+      addressIdsByKey.set(addressKey(address), address.id);
+    }
+    for (const doc of existing.documents) {
+      documentKeys.add(documentKey(doc.addressId, doc.originalName, doc.size));
+    }
+    for (const annotation of existing.gapAnnotations) {
+      gapAnnotationKeys.add(gapAnnotationKey(annotation));
+    }
+  } else {
+    for (const address of existing.addresses) {
+      items.push({ kind: "address", action: "remove", label: describeAddress(address) });
+    }
+    for (const doc of existing.documents) {
+      items.push({ kind: "document", action: "remove", label: doc.originalName });
+    }
+    for (const annotation of existing.gapAnnotations) {
+      items.push({
+        kind: "gapAnnotation",
+        action: "remove",
+        label: describeGapAnnotation(annotation),
+      });
+    }
+  }
+
+  const addressIdMap = new Map<unknown, string>();
+  const newAddresses: Address[] = [];
+  for (const archived of archive.addresses) {
+    const label = describeAddress(archived);
+    const key = addressKey(archived);
+    const duplicateId = addressIdsByKey.get(key);
+    if (duplicateId) {
+      addressIdMap.set(archived.id, duplicateId);
+      items.push({ kind: "address", action: "duplicate", label });
+      continue;
+    }
+    // Imported addresses meet the same rules as ones entered on the page.
+    const checked = validateAddressInput(archived);
+    if (!checked.ok) {
+      items.push({
+        kind: "address",
+        action: "invalid",
+        label,
+        reason: Object.values(checked.errors).join(" "),
+      });
+      continue;
+    }
+    const candidate = {
+      ...checked.value,
+      id: crypto.randomUUID(),
+      profileId,
+      createdAt: archivedTime(archived.createdAt, now),
+      updatedAt: archivedTime(archived.updatedAt, now),
+    };
+    const reason = validateRecord("addresses", candidate);
+    if (reason) {
+      items.push({ kind: "address", action: "invalid", label, reason });
+      continue;
+    }
+    const address = candidate as Address;
+    addressIdMap.set(archived.id, address.id);
+    addressIdsByKey.set(key, address.id);
+    newAddresses.push(address);
+    items.push({ kind: "address", action: "add", label });
+  }
+
+  const newDocuments: { document: DocumentMeta; data: Buffer }[] = [];
+  for (const archived of archive.documents) {
+    const label = String(archived.originalName ?? "Unnamed document");
+    const addressId = addressIdMap.get(archived.addressId);
+    if (!addressId) {
+      items.push({
+        kind: "document",
+        action: "invalid",
+        label,
+        reason: "Its address was not imported.",
+      });
+      continue;
+    }
+    // The same types an upload accepts, as previews and exports serve them.
+    if (!allowedDocumentTypes.has(String(archived.mimeType))) {
+      items.push({
+        kind: "document",
+        action: "invalid",
+        label,
+        reason: "Only PDF, PNG, and JPG files can be imported.",
+      });
+      continue;
+    }
+    const file = findArchivedFile(archive.zip, archived.id);
+    if (!file) {
+      items.push({
+        kind: "document",
+        action: "invalid",
+        label,
+        reason: "The file is missing from the archive.",
+      });
+      continue;
+    }
+    const buffer = await file.async("nodebuffer");
+    const key = documentKey(addressId, archived.originalName, buffer.length);
+    if (documentKeys.has(key)) {
+      items.push({ kind: "document", action: "duplicate", label });
+      continue;
+    }
+    const parsed = parseDocumentDetails(archived);
+    if ("error" in parsed) {
+      items.push({ kind: "document", action: "invalid", label, reason: parsed.error });
+      continue;
+    }
+    // Only the fields a document has are copied from the archive.
+    const id = crypto.randomUUID();
+    const mimeType = String(archived.mimeType);
+    const candidate = {
+      id,
+      profileId,
+      addressId,
+      originalName: label,
+      storedName: buildStoredName(id, label, mimeType),
+      mimeType,
+      size: buffer.length,
+      uploadedAt: archivedTime(archived.uploadedAt, now),
+      ...Object.fromEntries(
+        Object.entries(parsed.details).filter(([, value]) => value !== undefined),
+      ),
+      ...(archived.redactions !== undefined ? { redactions: archived.redactions } : {}),
+      ...(archived.pages !== undefined ? { pages: archived.pages } : {}),
+    };
+    const reason = validateRecord("documents", candidate);
+    if (reason) {
+      items.push({ kind: "document", action: "invalid", label, reason });
+      continue;
+    }
+    documentKeys.add(key);
+    newDocuments.push({ document: candidate as DocumentMeta, data: buffer });
+    items.push({ kind: "document", action: "add", label });
+  }
+
+  const newGapAnnotations: GapAnnotation[] = [];
+  for (const archived of archive.gapAnnotations) {
+    const label = describeGapAnnotation(archived);
+    const key = gapAnnotationKey(archived);
+    if (gapAnnotationKeys.has(key)) {
+      items.push({ kind: "gapAnnotation", action: "duplicate", label });
+      continue;
+    }
+    const candidate = {
+      id: crypto.randomUUID(),
+      profileId,
+      start: archived.start,
+      end: archived.end,
+      explanation: archived.explanation,
+      createdAt: archivedTime(archived.createdAt, now),
+      updatedAt: archivedTime(archived.updatedAt, now),
+    };
+    const reason =
+      validateRecord("gapAnnotations", candidate) ??
+      (String(candidate.explanation).length > maxGapExplanationLength
+        ? `The explanation must be at most ${maxGapExplanationLength} characters.`
+        : null);
+    if (reason) {
+      items.push({ kind: "gapAnnotation", action: "invalid", label, reason });
+      continue;
+    }
+    gapAnnotationKeys.add(key);
+    newGapAnnotations.push(candidate as GapAnnotation);
+    items.push({ kind: "gapAnnotation", action: "add", label });
+  }
+
+  const count = (kind: ImportItem["kind"], actions: ImportItem["action"][]) =>
+    items.filter((item) => item.kind === kind && actions.includes(item.action)).length;
+
+  if (!dryRun) {
+    await importProfileData({
+      profileId,
+      addresses: newAddresses,
+      documents: newDocuments,
+      gapAnnotations: newGapAnnotations,
+      replace: mode === "restore",
+    });
+  }
+
+  return {
+    mode,
+    dryRun,
+    summary: {
+      addressesAdded: count("address", ["add"]),
+      addressesSkipped: count("address", ["duplicate", "invalid"]),
+      addressesRemoved: count("address", ["remove"]),
+      documentsAdded: count("document", ["add"]),
+      documentsSkipped: count("document", ["duplicate", "invalid"]),
+      documentsRemoved: count("document", ["remove"]),
+      gapAnnotationsAdded: count("gapAnnotation", ["add"]),
+      gapAnnotationsSkipped: count("gapAnnotation", ["duplicate", "invalid"]),
+      gapAnnotationsRemoved: count("gapAnnotation", ["remove"]),
+    },
+    items,
+  };
+}
@@ -0,0 +1,154 @@
+import Database from "better-sqlite3";
+import { existsSync, promises as fs } from "fs";
+import path from "path";
+import {
+  createEncryptionConfig,
+  decryptBuffer,
+  decryptText,
+  encryptBuffer,
+  encryptText,
+  isEncrypted,
+  isEncryptedText,
+  readEncryptionConfig,
+  verifyPassphrase,
+  writeEncryptionConfig,
+} from "./encryption";
+import {
+  databasePath,
+  encryptionConfigPath,
+  quarantinePath,
+  storePath,
+  uploadsDir,
+} from "./paths";
+
+// The new config is written here before anything is re-encrypted and only
+// replaces the real one at the end, so an interrupted rotation can be run
+// again with the same passphrases and picks up where it stopped.
+const pendingConfigPath = `${encryptionConfigPath}.next`;
+
+type RotationKeys = { current: Buffer | null; next: Buffer };
+
+function openWithEither(keys: RotationKeys, open: (key: Buffer) => Buffer | string) {
+  for (const key of [keys.current, keys.next]) {
+    if (!key) {
+      continue;
+    }
+    try {
+      return open(key);
+    } catch {
+      // Try the other key: data may already have been rotated.
+    }
+  }
+  throw new Error("Found data encrypted with a key that is neither the current nor the new one.");
+}
+
+function resealBuffer(data: Buffer, keys: RotationKeys) {
+  const plain = isEncrypted(data)
+    ? (openWithEither(keys, (key) => decryptBuffer(key, data)) as Buffer)
+    : data;
+  return encryptBuffer(keys.next, plain);
+}
+
+function resealText(text: string, keys: RotationKeys) {
+  const plain = isEncryptedText(text)
+    ? (openWithEither(keys, (key) => decryptText(key, text)) as string)
+    : text;
+  return encryptText(keys.next, plain);
+}
+
+const tempSuffix = ".tmp";
+
+async function resealFile(filePath: string, keys: RotationKeys) {
+  const sealed = resealBuffer(await fs.readFile(filePath), keys);
+  const tempPath = `${filePath}.${process.pid}${tempSuffix}`;
+  await fs.writeFile(tempPath, sealed);
+  await fs.rename(tempPath, filePath);
+}
+
+function resealDatabase(filePath: string, keys: RotationKeys) {
+  const db = new Database(filePath);
+  try {
+    const rows = db.prepare("SELECT rowid, data FROM records").all() as {
+      rowid: number;
+      data: string;
+    }[];
+    const update = db.prepare("UPDATE records SET data = ? WHERE rowid = ?");
+    db.transaction(() => {
+      for (const row of rows) {
+        update.run(resealText(row.data, keys), row.rowid);
+      }
+    })();
+    // Old page contents can linger in free pages and the WAL; rewriting the
+    // file leaves only what was just encrypted.
+    db.pragma("wal_checkpoint(TRUNCATE)");
+    db.exec("VACUUM");
+    return rows.length;
+  } finally {
+    db.close();
+  }
+}
+
+async function prepareNextKey(newPassphrase: string) {
+  const pending = await readEncryptionConfig(pendingConfigPath);
+  if (pending) {
+    const key = await verifyPassphrase(newPassphrase, pending);
+    if (!key) {
+      throw new Error(
+        "An earlier rotation was interrupted. Run it again with the same new passphrase.",
+      );
+    }
+    return key;
+  }
+  const { config, key } = await createEncryptionConfig(newPassphrase);
+  await writeEncryptionConfig(config, pendingConfigPath);
+  return key;
+}
+
+/**
+ * Re-encrypts the store and every upload under a key derived from a new
+ * passphrase. With encryption not yet set up this turns it on, encrypting
+ * the existing plain data. The app must not be running meanwhile.
+ */
+export async function rotateEncryptionKey({
+  currentPassphrase,
+  newPassphrase,
+}: {
+  currentPassphrase: string | null;
+  newPassphrase: string;
+}) {
+  const config = await readEncryptionConfig();
+  let current: Buffer | null = null;
+  if (config) {
+    current = currentPassphrase ? await verifyPassphrase(currentPassphrase, config) : null;
+    if (!current) {
+      throw new Error("The current passphrase is incorrect.");
+    }
+  }
+  const keys: RotationKeys = { current, next: await prepareNextKey(newPassphrase) };
+
+  let files = 0;
+  for (const filePath of [storePath, `${storePath}.migrated`, quarantinePath]) {
+    if (existsSync(filePath)) {
+      await resealFile(filePath, keys);
+      files += 1;
+    }
+  }
+  if (existsSync(uploadsDir)) {
+    for (const name of await fs.readdir(uploadsDir)) {
+      const filePath = path.join(uploadsDir, name);
+      // Left half-written by an interrupted run. The file it was to replace
+      // is untouched and gets resealed in its own turn.
+      if (name.endsWith(tempSuffix)) {
+        await fs.rm(filePath, { force: true });
+        continue;
+      }
+      await resealFile(filePath, keys);
+      files += 1;
+    }
+  }
+  const sqlitePath = process.env.SQLITE_PATH || databasePath;
+  const records = existsSync(sqlitePath) ? resealDatabase(sqlitePath, keys) : 0;
+
+  await fs.rename(pendingConfigPath, encryptionConfigPath);
+  return { files, records };
+}
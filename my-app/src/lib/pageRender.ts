@@ -0,0 +1,127 @@
+import type { SKRSContext2D } from "@napi-rs/canvas";
+import { createCanvas, loadImage } from "@napi-rs/canvas";
+import path from "path";
+import { PDFDocument } from "pdf-lib";
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import type { DocumentMeta, Redaction } from "./storage";
+import { readUploadFile } from "./storage";
+
+type RenderOptions = {
+  /** Pixels per point for PDF pages, or per pixel for images. */
+  scale?: number;
+  /** Caps the rendered size in pixels; images are never enlarged to meet them. */
+  maxWidth?: number;
+  maxHeight?: number;
+  redactions?: Redaction[];
+  format?: "png" | "jpeg";
+  /** JPEG quality from 0 to 100. */
+  quality?: number;
+};
+
+/** A rendered page and its size as displayed: points for PDFs, pixels for images. */
+export type RenderedPage = {
+  data: Buffer;
+  mimeType: "image/png" | "image/jpeg";
+  width: number;
+  height: number;
+};
+
+const standardFontDataUrl = `${path.join(process.cwd(), "node_modules/pdfjs-dist/standard_fonts")}/`;
+
+/** How many pages a document has; an image counts as one. */
+export async function countDocumentPages(
+  document: Pick<DocumentMeta, "mimeType">,
+  data: Buffer,
+) {
+  if (document.mimeType !== "application/pdf") {
+    return 1;
+  }
+  const pdf = await PDFDocument.load(data, { ignoreEncryption: true });
+  return pdf.getPageCount();
+}
+
+/** Reads a stored document's page count; null if the file is missing or unreadable. */
+export async function readDocumentPageCount(document: DocumentMeta) {
+  try {
+    return await countDocumentPages(document, await readUploadFile(document));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Renders one page of a document the way it is displayed, with its
+ * redaction boxes painted into the pixels, so nothing under them survives.
+ */
+export async function renderDocumentPage(
+  document: Pick<DocumentMeta, "mimeType">,
+  data: Buffer,
+  pageNumber: number,
+  {
+    scale = 1,
+    maxWidth = Infinity,
+    maxHeight = Infinity,
+    redactions = [],
+    format = "png",
+    quality = 85,
+  }: RenderOptions = {},
+): Promise<RenderedPage> {
+  let width: number;
+  let height: number;
+  let draw: (context: SKRSContext2D, pixelScale: number) => Promise<void>;
+  let cleanup = async () => {};
+
+  if (document.mimeType === "application/pdf") {
+    const source = await getDocument({
+      data: new Uint8Array(data),
+      isOffscreenCanvasSupported: false,
+      isImageDecoderSupported: false,
+      standardFontDataUrl,
+      verbosity: 0,
+    }).promise;
+    cleanup = () => source.destroy();
+    const page = await source.getPage(pageNumber);
+    ({ width, height } = page.getViewport({ scale: 1 }));
+    draw = async (context, pixelScale) => {
+      await page.render({
+        canvas: null,
+        canvasContext: context as unknown as CanvasRenderingContext2D,
+        viewport: page.getViewport({ scale: pixelScale }),
+      }).promise;
+    };
+  } else {
+    const image = await loadImage(data);
+    ({ width, height } = image);
+    draw = async (context, pixelScale) => {
+      context.drawImage(image, 0, 0, width * pixelScale, height * pixelScale);
+    };
+  }
+
+  try {
+    const pixelScale = Math.min(scale, maxWidth / width, maxHeight / height);
+    const canvas = createCanvas(
+      Math.max(1, Math.round(width * pixelScale)),
+      Math.max(1, Math.round(height * pixelScale)),
+    );
+    const context = canvas.getContext("2d");
+    context.imageSmoothingQuality = "high";
+    context.fillStyle = "white";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    await draw(context, pixelScale);
+
+    context.fillStyle = "black";
+    for (const box of redactions.filter((redaction) => redaction.page === pageNumber)) {
+      context.fillRect(
+        Math.floor(box.x * canvas.width),
+        Math.floor(box.y * canvas.height),
+        Math.ceil(box.width * canvas.width) + 1,
+        Math.ceil(box.height * canvas.height) + 1,
+      );
+    }
+    return format === "jpeg"
+      ? { data: canvas.toBuffer("image/jpeg", quality), mimeType: "image/jpeg", width, height }
+      : { data: canvas.toBuffer("image/png"), mimeType: "image/png", width, height };
+  } finally {
+    await cleanup();
+  }
+}
@@ -0,0 +1,9 @@
+import path from "path";
+
+export const dataDir = path.join(process.cwd(), "data");
+export const uploadsDir = path.join(dataDir, "uploads");
+export const storePath = path.join(dataDir, "store.json");
+export const databasePath = path.join(dataDir, "store.sqlite");
+export const quarantinePath = path.join(dataDir, "quarantine.json");
+export const encryptionConfigPath = path.join(dataDir, "encryption.json");
+export const shareLinkKeyPath = path.join(dataDir, "share-link.key");
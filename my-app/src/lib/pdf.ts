@@ -1,21 +1,78 @@
-import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
-import { promises as fs } from "fs";
-import type { Address, DocumentMeta } from "./storage";
-import { getUploadPath, sortAddresses } from "./storage";
+import type { PDFFont, PDFImage, PDFPage, PDFRef } from "pdf-lib";
+import {
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PageSizes,
+  StandardFonts,
+  degrees,
+  popGraphicsState,
+  pushGraphicsState,
+  rgb,
+} from "pdf-lib";
+import type {
+  Address,
+  DocumentMeta,
+  DocumentPage,
+  ExportTemplate,
+  GapAnnotation,
+  Profile,
+  StoredImage,
+} from "./storage";
+import { formatUkDate } from "./dates";
+import { allowedDocumentTypes, describeDocument } from "./documents";
+import { defaultEvidenceRule, getEvidenceGaps } from "./evidence";
+import { defaultDeclarationText, defaultExportTitle } from "./exportTemplates";
+import type { ExportWarning } from "./exportWarnings";
+import {
+  UnsupportedDocumentError,
+  classifyExportError,
+  loadExportPdf,
+  toExportWarning,
+} from "./exportWarnings";
+import { annotateGaps, getAddressOverlaps, getCoverageGaps } from "./gaps";
+import type { ImageQuality } from "./imageQuality";
+import { getImageQuality, imageQualities } from "./imageQuality";
+import { toPdfFields, toPdfText } from "./pdfText";
+import { renderDocumentPage } from "./pageRender";
+import { drawTimeline, getTimelineHeight } from "./pdfTimeline";
+import { readUploadFile, sortAddresses } from "./storage";
 
 type PdfBuildOptions = {
+  profile: Profile;
   addresses: Address[];
   documents: DocumentMeta[];
+  gapAnnotations: GapAnnotation[];
   range: {
     start: string;
     end: string;
   };
+  template?: ExportTemplate | null;
+  /** Stamped diagonally across every attached document page. */
+  watermark?: string;
+  /** How attached images are resampled; uploads themselves are never changed. */
+  imageQuality?: ImageQuality;
+};
+
+/** A bookmark, and a table of contents line, pointing at a page. */
+type PdfSection = {
+  title: string;
+  pageIndex: number;
+  children?: PdfSection[];
 };
 
 const margin = 48;
 const bodySize = 12;
 const headingSize = 18;
 const lineHeight = 16;
+const runningSize = 8;
+const runningMargin = 24;
+const logoBox = { width: 140, height: 56 };
+const signatureBox = { width: 200, height: 60 };
+const watermarkSize = 40;
+// Redacted PDF pages are rasterised at this resolution unless the image
+// quality asks for less.
+const redactionDpi = 144;
 
 function wrapText(text: string, maxWidth: number, font: any, size: number) {
   const words = text.split(" ");
@@ -75,21 +132,497 @@ function formatAddress(address: Address) {
     address.postcode,
     address.country,
   ].filter(Boolean) as string[];
-  return lines.join(", ");
+  return toPdfText(lines.join(", "));
+}
+
+// Names and details typed in or uploaded can hold characters the standard
+// fonts do not have.
+function describeForPdf(doc: DocumentMeta) {
+  return toPdfText(describeDocument(doc));
+}
+
+/** Embeds a template image; null, with a warning noted, if it cannot be read. */
+async function embedStoredImage(
+  pdf: PDFDocument,
+  image: StoredImage,
+  name: string,
+  warnings: ExportWarning[],
+) {
+  try {
+    const data = await readUploadFile(image);
+    return await (image.mimeType === "image/png" ? pdf.embedPng(data) : pdf.embedJpg(data));
+  } catch (error) {
+    warnings.push(toExportWarning({ name }, classifyExportError(error)));
+    return null;
+  }
+}
+
+// Scales an image down, never up, to fit inside a box.
+function fitImage(image: { width: number; height: number }, box: typeof logoBox) {
+  const scale = Math.min(box.width / image.width, box.height / image.height, 1);
+  return { width: image.width * scale, height: image.height * scale };
+}
+
+/**
+ * Draws the template's declaration with a signature image, or a line to sign
+ * on, starting a new page if the block would not fit. Text too long for one
+ * page carries on over the next, and the signature lines stay together.
+ * Returns where it went.
+ */
+async function drawDeclaration(
+  pdf: PDFDocument,
+  page: PDFPage,
+  y: number,
+  template: ExportTemplate,
+  fonts: { font: PDFFont; bold: PDFFont },
+  warnings: ExportWarning[],
+) {
+  const width = page.getWidth() - margin * 2;
+  const lines = (template.declarationText ?? defaultDeclarationText)
+    .split(/\r?\n/)
+    .flatMap((paragraph) => wrapText(paragraph, width, fonts.font, bodySize));
+  const signOffHeight =
+    8 + signatureBox.height + lineHeight * (template.applicantName ? 4 : 2.5);
+  const blockHeight = 24 + lines.length * lineHeight + signOffHeight;
+  let current = page;
+  let cursor = y - lineHeight;
+  if (cursor - blockHeight < margin) {
+    current = pdf.addPage();
+    cursor = current.getHeight() - margin;
+  }
+  const pageIndex = pdf.getPageCount() - 1;
+
+  current.drawText("Declaration", { x: margin, y: cursor, size: 14, font: fonts.bold });
+  cursor -= 24;
+  ({ page: current, y: cursor } = drawLines({
+    pdf,
+    page: current,
+    lines,
+    font: fonts.font,
+    size: bodySize,
+    y: cursor,
+  }));
+  if (cursor - signOffHeight < margin) {
+    current = pdf.addPage();
+    cursor = current.getHeight() - margin;
+  }
+
+  cursor -= 8;
+  const signature =
+    template.signature &&
+    (await embedStoredImage(pdf, template.signature, "Template signature", warnings));
+  if (signature) {
+    const size = fitImage(signature, signatureBox);
+    current.drawImage(signature, { x: margin + 60, y: cursor - size.height, ...size });
+  }
+  cursor -= signatureBox.height;
+  current.drawText("Signed:", { x: margin, y: cursor + 4, size: bodySize, font: fonts.font });
+  current.drawLine({
+    start: { x: margin + 60, y: cursor },
+    end: { x: margin + 60 + signatureBox.width, y: cursor },
+    thickness: 0.75,
+  });
+  cursor -= lineHeight * 1.5;
+  if (template.applicantName) {
+    current.drawText(`Name: ${template.applicantName}`, {
+      x: margin,
+      y: cursor,
+      size: bodySize,
+      font: fonts.font,
+    });
+    cursor -= lineHeight * 1.5;
+  }
+  current.drawText("Date:", { x: margin, y: cursor, size: bodySize, font: fonts.font });
+  current.drawLine({
+    start: { x: margin + 60, y: cursor - 2 },
+    end: { x: margin + 60 + 120, y: cursor - 2 },
+    thickness: 0.75,
+  });
+  return { page: current, y: cursor - lineHeight, pageIndex };
 }
 
-function formatUkDate(value?: string) {
-  if (!value) {
-    return "";
+// Shortens a line to fit, so every contents entry stays on one line.
+function fitText(text: string, maxWidth: number, font: PDFFont, size: number) {
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) {
+    return text;
+  }
+  let fitted = text;
+  while (fitted && font.widthOfTextAtSize(`${fitted}...`, size) > maxWidth) {
+    fitted = fitted.slice(0, -1);
   }
-  const [year, month, day] = value.split("-");
-  if (!year || !month || !day) {
-    return value;
+  return `${fitted.trimEnd()}...`;
+}
+
+function fitDestination(pdf: PDFDocument, pageIndex: number) {
+  return pdf.context.obj([pdf.getPage(pageIndex).ref, PDFName.of("Fit")]);
+}
+
+/**
+ * Inserts contents pages at `pageIndex` listing the sections with their page
+ * numbers, each line linking to its page. Sections must already be shifted
+ * to allow for the pages inserted here; see `countContentsPages`.
+ */
+function drawTableOfContents(
+  pdf: PDFDocument,
+  pageIndex: number,
+  pageCount: number,
+  sections: PdfSection[],
+  fonts: { font: PDFFont; bold: PDFFont },
+) {
+  const entries = sections.flatMap((section) => [
+    { section, indent: 0, font: fonts.bold },
+    ...(section.children ?? []).map((child) => ({
+      section: child,
+      indent: 16,
+      font: fonts.font,
+    })),
+  ]);
+  const pages = Array.from({ length: pageCount }, (_, offset) =>
+    pdf.insertPage(pageIndex + offset),
+  );
+  const perPage = getContentsLinesPerPage(pages[0]);
+  const pageWidth = pages[0].getWidth();
+  const top = pages[0].getHeight() - margin;
+
+  pages[0].drawText("Contents", { x: margin, y: top, size: headingSize, font: fonts.bold });
+  entries.forEach((entry, index) => {
+    // The heading takes the first two line slots.
+    const slot = index + 2;
+    const page = pages[Math.floor(slot / perPage)];
+    const y = top - (slot % perPage) * lineHeight;
+    const pageNumber = String(entry.section.pageIndex + 1);
+    const numberWidth = fonts.font.widthOfTextAtSize(pageNumber, bodySize);
+    const x = margin + entry.indent;
+    const title = fitText(
+      entry.section.title,
+      pageWidth - margin - x - numberWidth - 12,
+      entry.font,
+      bodySize,
+    );
+    page.drawText(title, { x, y, size: bodySize, font: entry.font });
+    page.drawText(pageNumber, {
+      x: pageWidth - margin - numberWidth,
+      y,
+      size: bodySize,
+      font: fonts.font,
+    });
+    const link = pdf.context.register(
+      pdf.context.obj({
+        Type: "Annot",
+        Subtype: "Link",
+        Rect: [x, y - 4, pageWidth - margin, y + bodySize],
+        Border: [0, 0, 0],
+        Dest: fitDestination(pdf, entry.section.pageIndex),
+      }),
+    );
+    page.node.addAnnot(link);
+  });
+}
+
+function getContentsLinesPerPage(page: PDFPage) {
+  return Math.floor((page.getHeight() - margin * 2) / lineHeight);
+}
+
+function countContentsPages(page: PDFPage, sections: PdfSection[]) {
+  const lines =
+    2 + sections.reduce((total, section) => total + 1 + (section.children?.length ?? 0), 0);
+  return Math.ceil(lines / getContentsLinesPerPage(page));
+}
+
+/**
+ * Writes outline items under `parent`, linked as siblings, and returns the
+ * first and last of them with the number of items visible when expanded.
+ */
+function writeOutlineItems(pdf: PDFDocument, parent: PDFRef, sections: PdfSection[]) {
+  const refs = sections.map(() => pdf.context.nextRef());
+  let count = sections.length;
+  sections.forEach((section, index) => {
+    const item = pdf.context.obj({
+      Title: PDFHexString.fromText(section.title),
+      Parent: parent,
+      Dest: fitDestination(pdf, section.pageIndex),
+    });
+    if (index > 0) {
+      item.set(PDFName.of("Prev"), refs[index - 1]);
+    }
+    if (index < refs.length - 1) {
+      item.set(PDFName.of("Next"), refs[index + 1]);
+    }
+    if (section.children?.length) {
+      const children = writeOutlineItems(pdf, refs[index], section.children);
+      item.set(PDFName.of("First"), children.first);
+      item.set(PDFName.of("Last"), children.last);
+      item.set(PDFName.of("Count"), pdf.context.obj(children.count));
+      count += children.count;
+    }
+    pdf.context.assign(refs[index], item);
+  });
+  return { first: refs[0], last: refs[refs.length - 1], count };
+}
+
+/** Adds the sections as bookmarks and opens the viewer's bookmark panel. */
+function addOutline(pdf: PDFDocument, sections: PdfSection[]) {
+  const root = pdf.context.nextRef();
+  const items = writeOutlineItems(pdf, root, sections);
+  pdf.context.assign(
+    root,
+    pdf.context.obj({
+      Type: "Outlines",
+      First: items.first,
+      Last: items.last,
+      Count: items.count,
+    }),
+  );
+  pdf.catalog.set(PDFName.of("Outlines"), root);
+  pdf.catalog.set(PDFName.of("PageMode"), PDFName.of("UseOutlines"));
+}
+
+// Copied pages can leave the graphics state transformed; wrapping their
+// content in save/restore keeps anything drawn on top where it is meant to be.
+function isolatePageContent(pdf: PDFDocument, page: PDFPage) {
+  page.node.normalize();
+  const start = pdf.context.register(pdf.context.contentStream([pushGraphicsState()]));
+  const end = pdf.context.register(pdf.context.contentStream([popGraphicsState()]));
+  page.node.wrapContentStreams(start, end);
+}
+
+/**
+ * Draws a line of small grey text along the top or bottom edge of the page
+ * as it is displayed, so it reads correctly on rotated or cropped imports.
+ */
+function drawRunningText(
+  page: PDFPage,
+  text: string,
+  font: PDFFont,
+  edge: "top" | "bottom",
+  align: "left" | "center" | "right",
+) {
+  const box = page.getCropBox();
+  const angle = ((page.getRotation().angle % 360) + 360) % 360;
+  const sideways = angle === 90 || angle === 270;
+  const width = sideways ? box.height : box.width;
+  const height = sideways ? box.width : box.height;
+  const textWidth = font.widthOfTextAtSize(text, runningSize);
+  const vx =
+    align === "left"
+      ? margin
+      : align === "right"
+        ? width - margin - textWidth
+        : (width - textWidth) / 2;
+  const vy = edge === "top" ? height - runningMargin : runningMargin;
+  const [x, y] =
+    angle === 90
+      ? [box.width - vy, vx]
+      : angle === 180
+        ? [box.width - vx, box.height - vy]
+        : angle === 270
+          ? [vy, box.height - vx]
+          : [vx, vy];
+  page.drawText(text, {
+    x: box.x + x,
+    y: box.y + y,
+    size: runningSize,
+    font,
+    color: rgb(0.4, 0.4, 0.4),
+    rotate: degrees(angle),
+  });
+}
+
+/**
+ * Stamps text corner to corner across the page as it is displayed, shrunk
+ * to fit the diagonal, in translucent grey over the page content.
+ */
+function drawWatermark(page: PDFPage, text: string, font: PDFFont) {
+  const box = page.getCropBox();
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+  const sideways = rotation === 90 || rotation === 270;
+  const width = sideways ? box.height : box.width;
+  const height = sideways ? box.width : box.height;
+  const diagonal = Math.hypot(width, height);
+  const size = Math.min(watermarkSize, (diagonal * 0.8) / font.widthOfTextAtSize(text, 1));
+  const textWidth = font.widthOfTextAtSize(text, size);
+  const textHeight = font.heightAtSize(size, { descender: false });
+  // Turning the text by the page's rotation as well keeps it on the
+  // bottom-left to top-right diagonal once the page is displayed.
+  const angle = Math.atan2(height, width) + (rotation * Math.PI) / 180;
+  page.drawText(text, {
+    x: box.x + box.width / 2 - (Math.cos(angle) * textWidth - Math.sin(angle) * textHeight) / 2,
+    y: box.y + box.height / 2 - (Math.sin(angle) * textWidth + Math.cos(angle) * textHeight) / 2,
+    size,
+    font,
+    color: rgb(0.5, 0.5, 0.5),
+    opacity: 0.35,
+    rotate: degrees((angle * 180) / Math.PI),
+  });
+}
+
+/** Adds a page showing `image` at `width` by `height` points, edge to edge. */
+function addImagePage(
+  pdf: PDFDocument,
+  image: PDFImage,
+  width: number,
+  height: number,
+) {
+  const page = pdf.addPage([width, height]);
+  page.drawImage(image, { x: 0, y: 0, width, height });
+  return page;
+}
+
+/**
+ * Adds a document's pages, or its image on an A4 page, with any page
+ * selection, rotation and redactions applied. Returns the pages added.
+ */
+async function addDocumentPages(
+  pdf: PDFDocument,
+  doc: DocumentMeta,
+  imageSettings: ReturnType<typeof getImageQuality>,
+) {
+  if (!allowedDocumentTypes.has(doc.mimeType)) {
+    throw new UnsupportedDocumentError(`Cannot export ${doc.mimeType} files.`);
+  }
+  const fileBuffer = await readUploadFile(doc);
+  const redactions = doc.redactions ?? [];
+  const isRedacted = (pageNumber: number) =>
+    redactions.some((redaction) => redaction.page === pageNumber);
+  const documentPages: PDFPage[] = [];
+  if (doc.mimeType === "application/pdf") {
+    const sourcePdf = await loadExportPdf(fileBuffer);
+    const pageCount = sourcePdf.getPageCount();
+    const allPages = sourcePdf.getPageIndices().map((index) => ({ page: index + 1 }));
+    // A selection that no longer matches the file falls back to every page.
+    const chosen = (doc.pages ?? []).filter(({ page }) => page <= pageCount);
+    const selected: DocumentPage[] = chosen.length > 0 ? chosen : allPages;
+    // Redacted pages are rebuilt as images with the boxes burned in, so
+    // the text under them cannot be copied out of the export.
+    const copiedPages = await pdf.copyPages(
+      sourcePdf,
+      selected.filter(({ page }) => !isRedacted(page)).map(({ page }) => page - 1),
+    );
+    for (const { page, rotate } of selected) {
+      let documentPage: PDFPage;
+      if (isRedacted(page)) {
+        const rendered = await renderDocumentPage(doc, fileBuffer, page, {
+          scale: Math.min(imageSettings.dpi ?? redactionDpi, redactionDpi) / 72,
+          redactions,
+          format: "jpeg",
+          quality: imageSettings.jpegQuality,
+        });
+        const image = await pdf.embedJpg(rendered.data);
+        documentPage = addImagePage(pdf, image, rendered.width, rendered.height);
+      } else {
+        documentPage = copiedPages.shift()!;
+        pdf.addPage(documentPage);
+        isolatePageContent(pdf, documentPage);
+      }
+      if (rotate) {
+        documentPage.setRotation(
+          degrees((documentPage.getRotation().angle + rotate) % 360),
+        );
+      }
+      documentPages.push(documentPage);
+    }
+  } else {
+    const rotate = doc.pages?.[0]?.rotate ?? 0;
+    // A quarter-turned image goes on a landscape page that is then turned
+    // with it, so it still shows on an upright A4 page.
+    const [a4Width, a4Height] = PageSizes.A4;
+    const imagePage = pdf.addPage(
+      rotate === 90 || rotate === 270 ? [a4Height, a4Width] : [a4Width, a4Height],
+    );
+    const { width: pageW, height: pageH } = imagePage.getSize();
+    const maxWidth = pageW - margin * 2;
+    const maxHeight = pageH - margin * 2;
+
+    let imageData = fileBuffer;
+    let imageType = doc.mimeType;
+    let size: { width: number; height: number } | null = null;
+    if (isRedacted(1) || imageSettings.dpi) {
+      const dpi = imageSettings.dpi;
+      const rendered = await renderDocumentPage(doc, fileBuffer, 1, {
+        redactions,
+        // Enough pixels for the preset's resolution at the largest size
+        // the image can be shown on the page.
+        maxWidth: dpi ? (maxWidth * dpi) / 72 : undefined,
+        maxHeight: dpi ? (maxHeight * dpi) / 72 : undefined,
+        format: dpi || doc.mimeType !== "image/png" ? "jpeg" : "png",
+        quality: imageSettings.jpegQuality,
+      });
+      size = rendered;
+      // Recompressing an image that is already small can make it bigger.
+      if (isRedacted(1) || rendered.data.length < fileBuffer.length) {
+        imageData = rendered.data;
+        imageType = rendered.mimeType;
+      }
+    }
+    const image =
+      imageType === "image/png"
+        ? await pdf.embedPng(imageData)
+        : await pdf.embedJpg(imageData);
+    // Laid out at the upload's own size, however many pixels are embedded.
+    const { width: imageW, height: imageH } = size ?? image;
+    const scale = Math.min(maxWidth / imageW, maxHeight / imageH, 1);
+    imagePage.drawImage(image, {
+      x: (pageW - imageW * scale) / 2,
+      y: (pageH - imageH * scale) / 2,
+      width: imageW * scale,
+      height: imageH * scale,
+    });
+    if (rotate) {
+      imagePage.setRotation(degrees(rotate));
+    }
+    documentPages.push(imagePage);
+  }
+  return documentPages;
+}
+
+/** Stands in for a document that could not be added, saying what went wrong. */
+function addPlaceholderPage(
+  pdf: PDFDocument,
+  doc: DocumentMeta,
+  warning: ExportWarning,
+  fonts: { font: PDFFont; bold: PDFFont },
+) {
+  const page = pdf.addPage();
+  const width = page.getWidth() - margin * 2;
+  let cursor = page.getHeight() - margin;
+  page.drawText("Document not included", {
+    x: margin,
+    y: cursor,
+    size: headingSize,
+    font: fonts.bold,
+  });
+  cursor -= headingSize + 8;
+  const lines = [
+    ...wrapText(describeForPdf(doc), width, fonts.font, bodySize),
+    "",
+    ...wrapText(warning.message, width, fonts.font, bodySize),
+  ];
+  for (const line of lines) {
+    page.drawText(line, { x: margin, y: cursor, size: bodySize, font: fonts.font });
+    cursor -= lineHeight;
   }
-  return `${day.padStart(2, "0")}/${month.padStart(2, "0")}/${year}`;
+  return page;
 }
 
-export async function buildExportPdf({ addresses, documents, range }: PdfBuildOptions) {
+/**
+ * Builds the export. Documents that cannot be read get a page saying so
+ * instead, and are listed in the returned warnings and on a last page.
+ */
+export async function buildExportPdf({
+  profile,
+  addresses,
+  documents,
+  gapAnnotations,
+  range,
+  template: savedTemplate,
+  watermark,
+  imageQuality,
+}: PdfBuildOptions) {
+  // Templates saved before their text was checked may use characters the
+  // standard fonts do not have.
+  const template = savedTemplate && toPdfFields(savedTemplate);
+  const imageSettings = getImageQuality(imageQuality);
+  const warnings: ExportWarning[] = [];
   const pdf = await PDFDocument.create();
   const font = await pdf.embedFont(StandardFonts.Helvetica);
   const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
@@ -106,28 +639,108 @@ export async function buildExportPdf({ addresses, documents, range }: PdfBuildOp
   const pageWidth = page.getWidth();
   let cursor = page.getHeight() - margin;
 
-  page.drawText("UK Address History Export", {
+  // The logo sits in the top right corner and the title wraps beside it.
+  let titleWidth = pageWidth - margin * 2;
+  let logoBottom = cursor;
+  const logo =
+    template?.logo && (await embedStoredImage(pdf, template.logo, "Template logo", warnings));
+  if (logo) {
+    const size = fitImage(logo, logoBox);
+    page.drawImage(logo, {
+      x: pageWidth - margin - size.width,
+      y: cursor + headingSize - size.height,
+      ...size,
+    });
+    titleWidth -= logoBox.width + 12;
+    logoBottom = cursor + headingSize - size.height;
+  }
+  for (const line of wrapText(template?.title ?? defaultExportTitle, titleWidth, bold, headingSize)) {
+    page.drawText(line, {
+      x: margin,
+      y: cursor,
+      size: headingSize,
+      font: bold,
+      color: rgb(0.1, 0.1, 0.1),
+    });
+    cursor -= headingSize + 4;
+  }
+  cursor = Math.min(cursor - 6, logoBottom - lineHeight);
+
+  const detailLines = [
+    template?.applicantName
+      ? `Applicant: ${template.applicantName}`
+      : `Person: ${toPdfText(profile.name)}`,
+    ...(template?.dateOfBirth ? [`Date of birth: ${formatUkDate(template.dateOfBirth)}`] : []),
+    ...(template?.reference ? [`Reference: ${template.reference}`] : []),
+    `Range: ${formatUkDate(range.start)} to ${formatUkDate(range.end)}`,
+  ];
+  for (const line of detailLines) {
+    page.drawText(line, { x: margin, y: cursor, size: bodySize, font });
+    cursor -= lineHeight;
+  }
+  if (template?.coverText) {
+    cursor -= lineHeight / 2;
+    const coverLines = template.coverText
+      .split(/\r?\n/)
+      .flatMap((paragraph) => wrapText(paragraph, pageWidth - margin * 2, font, bodySize));
+    ({ page, y: cursor } = drawLines({
+      pdf,
+      page,
+      lines: coverLines,
+      font,
+      size: bodySize,
+      y: cursor,
+    }));
+  }
+  cursor -= lineHeight / 2;
+
+  const addressNumbers = new Map(
+    orderedAddresses.map((address, index) => [address.id, index + 1]),
+  );
+  const gaps = annotateGaps(getCoverageGaps(orderedAddresses, range), gapAnnotations);
+  // The timeline goes on a page of its own if the cover text leaves too
+  // little room for it.
+  if (cursor - getTimelineHeight(orderedAddresses, range) < margin) {
+    page = pdf.addPage();
+    cursor = page.getHeight() - margin;
+  }
+  cursor = drawTimeline({
+    page,
     x: margin,
     y: cursor,
-    size: headingSize,
-    font: bold,
-    color: rgb(0.1, 0.1, 0.1),
+    minY: margin,
+    width: pageWidth - margin * 2,
+    addresses: orderedAddresses,
+    gaps,
+    range,
+    addressNumbers,
+    font,
+    bold,
   });
-  cursor -= headingSize + 10;
+  cursor -= lineHeight / 2;
 
-  const rangeLine = `Range: ${formatUkDate(range.start)} to ${formatUkDate(range.end)}`;
-  page.drawText(rangeLine, { x: margin, y: cursor, size: bodySize, font });
-  cursor -= lineHeight * 1.5;
-
-  const summaryLines: string[] = ["Addresses included:"];
-  orderedAddresses.forEach((address, index) => {
-    const dateLine = `${formatUkDate(address.startDate)} to ${
-      address.endDate ? formatUkDate(address.endDate) : "Present"
-    }`;
-    summaryLines.push(
-      `${index + 1}. ${formatAddress(address)} (${dateLine})`,
-    );
-  });
+  // Addresses and gaps are interleaved by start date so the summary reads as
+  // one chronological history.
+  const summaryEntries = [
+    ...orderedAddresses.map((address, index) => ({
+      start: address.startDate,
+      line: `${index + 1}. ${formatAddress(address)} (${formatUkDate(
+        address.startDate,
+      )} to ${address.endDate ? formatUkDate(address.endDate) : "Present"})`,
+    })),
+    ...gaps.map((gap) => ({
+      start: gap.start,
+      line: `Gap: ${formatUkDate(gap.start)} to ${formatUkDate(gap.end)} - ${
+        gap.annotation
+          ? `Explanation: ${toPdfText(gap.annotation.explanation.replace(/\s+/g, " "))}`
+          : "No explanation given"
+      }`,
+    })),
+  ].sort((a, b) => a.start.localeCompare(b.start));
+  const summaryLines: string[] = [
+    "Address history:",
+    ...summaryEntries.map((entry) => entry.line),
+  ];
 
   const wrappedSummary = summaryLines.flatMap((line) =>
     wrapText(line, pageWidth - margin * 2, font, bodySize),
@@ -141,7 +754,101 @@ export async function buildExportPdf({ addresses, documents, range }: PdfBuildOp
     y: cursor,
   }));
 
+  const overlaps = getAddressOverlaps(orderedAddresses, range);
+  const describeOverlap = (overlap: (typeof overlaps)[number]) =>
+    `- Addresses ${addressNumbers.get(overlap.firstId)} and ${addressNumbers.get(
+      overlap.secondId,
+    )} overlap from ${formatUkDate(overlap.start)} to ${formatUkDate(overlap.end)} (${
+      overlap.days
+    } ${overlap.days === 1 ? "day" : "days"})`;
+  const overlapSections = [
+    {
+      heading: "Warning: overlapping addresses",
+      items: overlaps.filter((overlap) => !overlap.allowed),
+    },
+    {
+      heading: "Declared intentional overlaps",
+      items: overlaps.filter((overlap) => overlap.allowed),
+    },
+  ];
+  for (const section of overlapSections) {
+    if (section.items.length === 0) {
+      continue;
+    }
+    ({ page, y: cursor } = drawLines({
+      pdf,
+      page,
+      lines: [section.heading],
+      font: bold,
+      size: bodySize,
+      y: cursor - 6,
+    }));
+    ({ page, y: cursor } = drawLines({
+      pdf,
+      page,
+      lines: section.items.flatMap((overlap) =>
+        wrapText(describeOverlap(overlap), pageWidth - margin * 2, font, bodySize),
+      ),
+      font,
+      size: bodySize,
+      y: cursor,
+    }));
+  }
+
+  const evidenceGaps = getEvidenceGaps(orderedAddresses, documents, range);
+  if (evidenceGaps.length > 0) {
+    ({ page, y: cursor } = drawLines({
+      pdf,
+      page,
+      lines: ["Periods without proof documents"],
+      font: bold,
+      size: bodySize,
+      y: cursor - 6,
+    }));
+    const evidenceLines = [
+      `At least ${defaultEvidenceRule.minDocuments} dated document is expected in each ${defaultEvidenceRule.sliceMonths}-month period at an address.`,
+      ...evidenceGaps.map(
+        (gap) =>
+          `- Address ${addressNumbers.get(gap.addressId)}: ${formatUkDate(
+            gap.start,
+          )} to ${formatUkDate(gap.end)}`,
+      ),
+    ];
+    ({ page, y: cursor } = drawLines({
+      pdf,
+      page,
+      lines: evidenceLines.flatMap((line) =>
+        wrapText(line, pageWidth - margin * 2, font, bodySize),
+      ),
+      font,
+      size: bodySize,
+      y: cursor,
+    }));
+  }
+
+  let declarationPage: number | null = null;
+  if (template?.includeDeclaration) {
+    let pageIndex: number;
+    ({ page, y: cursor, pageIndex } = await drawDeclaration(
+      pdf,
+      page,
+      cursor,
+      template,
+      { font, bold },
+      warnings,
+    ));
+    declarationPage = pageIndex;
+  }
+
+  const summaryPageCount = pdf.getPageCount();
+  const addressSections: PdfSection[] = [];
   for (const address of orderedAddresses) {
+    const section: PdfSection = {
+      title: `${addressNumbers.get(address.id)}. ${formatAddress(address)}`,
+      pageIndex: pdf.getPageCount(),
+      children: [],
+    };
+    addressSections.push(section);
     page = pdf.addPage();
     cursor = page.getHeight() - margin;
 
@@ -155,6 +862,7 @@ export async function buildExportPdf({ addresses, documents, range }: PdfBuildOp
     const lines = [
       ...wrapText(addressLine, page.getWidth() - margin * 2, font, bodySize),
       dateLine,
+      ...(address.allowOverlap ? ["Declared as an intentional overlap."] : []),
     ];
 
     ({ page, y: cursor } = drawLines({
@@ -177,7 +885,14 @@ export async function buildExportPdf({ addresses, documents, range }: PdfBuildOp
         y: cursor - 6,
       }));
 
-      const docLines = addressDocs.map((doc) => `- ${doc.originalName}`);
+      const docLines = addressDocs.flatMap((doc) =>
+        wrapText(
+          `- ${describeForPdf(doc)}`,
+          page.getWidth() - margin * 2,
+          font,
+          bodySize,
+        ),
+      );
       ({ page, y: cursor } = drawLines({
         pdf,
         page,
@@ -189,39 +904,116 @@ export async function buildExportPdf({ addresses, documents, range }: PdfBuildOp
     }
 
     for (const doc of addressDocs) {
-      const fileBuffer = await fs.readFile(getUploadPath(doc));
-      if (doc.mimeType === "application/pdf") {
-        const sourcePdf = await PDFDocument.load(fileBuffer);
-        const copiedPages = await pdf.copyPages(
-          sourcePdf,
-          sourcePdf.getPageIndices(),
+      section.children?.push({
+        title: describeForPdf(doc),
+        pageIndex: pdf.getPageCount(),
+      });
+      const firstPage = pdf.getPageCount();
+      try {
+        const documentPages = await addDocumentPages(pdf, doc, imageSettings);
+        if (watermark) {
+          for (const documentPage of documentPages) {
+            drawWatermark(documentPage, watermark, bold);
+          }
+        }
+      } catch (error) {
+        // Anything added before the failure goes, and a page saying why
+        // takes the document's place.
+        while (pdf.getPageCount() > firstPage) {
+          pdf.removePage(pdf.getPageCount() - 1);
+        }
+        const warning = toExportWarning(
+          { documentId: doc.id, name: doc.originalName },
+          classifyExportError(error),
         );
-        copiedPages.forEach((copiedPage) => pdf.addPage(copiedPage));
-        continue;
+        warnings.push(warning);
+        addPlaceholderPage(pdf, doc, warning, { font, bold });
       }
-
-      const image =
-        doc.mimeType === "image/png"
-          ? await pdf.embedPng(fileBuffer)
-          : await pdf.embedJpg(fileBuffer);
-      const imagePage = pdf.addPage();
-      const { width: pageW, height: pageH } = imagePage.getSize();
-      const maxWidth = pageW - margin * 2;
-      const maxHeight = pageH - margin * 2;
-      const scale = Math.min(
-        maxWidth / image.width,
-        maxHeight / image.height,
-        1,
-      );
-      const scaled = image.scale(scale);
-      imagePage.drawImage(image, {
-        x: (pageW - scaled.width) / 2,
-        y: (pageH - scaled.height) / 2,
-        width: scaled.width,
-        height: scaled.height,
-      });
     }
   }
 
-  return pdf.save();
+  // Whatever was left out is listed once more at the end, so it is not only
+  // found by paging through the documents.
+  const bodySections = [...addressSections];
+  if (warnings.length > 0) {
+    bodySections.push({ title: "Left out of this export", pageIndex: pdf.getPageCount() });
+    page = pdf.addPage();
+    cursor = page.getHeight() - margin;
+    page.drawText("Left out of this export", {
+      x: margin,
+      y: cursor,
+      size: headingSize,
+      font: bold,
+    });
+    cursor -= headingSize + 8;
+    drawLines({
+      pdf,
+      page,
+      lines: warnings.flatMap((warning) =>
+        wrapText(
+          `- ${toPdfText(warning.name)}: ${warning.message}`,
+          page.getWidth() - margin * 2,
+          font,
+          bodySize,
+        ),
+      ),
+      font,
+      size: bodySize,
+      y: cursor,
+    });
+  }
+
+  // The contents go straight after the summary, so everything after it moves
+  // down by however many pages the contents take.
+  const summarySections: PdfSection[] = [
+    { title: "Summary", pageIndex: 0 },
+    ...(declarationPage === null ? [] : [{ title: "Declaration", pageIndex: declarationPage }]),
+  ];
+  const contentsPageCount = countContentsPages(pdf.getPage(0), [
+    ...summarySections,
+    ...bodySections,
+  ]);
+  const shift = (section: PdfSection): PdfSection => ({
+    ...section,
+    pageIndex: section.pageIndex + contentsPageCount,
+    children: section.children?.map(shift),
+  });
+  const sections = [...summarySections, ...bodySections.map(shift)];
+  drawTableOfContents(pdf, summaryPageCount, contentsPageCount, sections, { font, bold });
+  addOutline(pdf, [
+    ...summarySections,
+    { title: "Contents", pageIndex: summaryPageCount },
+    ...sections.slice(summarySections.length),
+  ]);
+
+  const pages = pdf.getPages();
+  const personLine = `Address history for ${template?.applicantName ?? toPdfText(profile.name)}${
+    template?.reference ? ` (ref. ${template.reference})` : ""
+  }`;
+  const exportRangeLine = `Export range: ${formatUkDate(range.start)} to ${formatUkDate(range.end)}`;
+  pages.forEach((current, index) => {
+    drawRunningText(current, personLine, font, "top", "left");
+    drawRunningText(current, exportRangeLine, font, "top", "right");
+    drawRunningText(current, `Page ${index + 1} of ${pages.length}`, font, "bottom", "center");
+  });
+
+  return { bytes: await pdf.save(), warnings };
+}
+
+/**
+ * Builds the export at `imageQuality`, then at each lower image quality in
+ * turn until the file fits in `maxBytes`. Returns the last attempt, and the
+ * quality it used, when even the lowest is too big.
+ */
+export async function buildExportPdfWithin(options: PdfBuildOptions, maxBytes: number) {
+  const first = imageQualities.indexOf(getImageQuality(options.imageQuality));
+  let result: { bytes: Uint8Array; imageQuality: ImageQuality; warnings: ExportWarning[] } | null =
+    null;
+  for (const { id } of imageQualities.slice(first)) {
+    result = { ...(await buildExportPdf({ ...options, imageQuality: id })), imageQuality: id };
+    if (result.bytes.byteLength <= maxBytes) {
+      break;
+    }
+  }
+  return result!;
 }
@@ -0,0 +1,46 @@
+// The PDF export is set in the standard PDF fonts, which only have the
+// Windows Latin-1 characters.
+const winAnsiCharacters = "\\x20-\\x7e\\xa0-\\xff€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ";
+const winAnsiLine = new RegExp(`^[${winAnsiCharacters}]*$`);
+const notWinAnsi = new RegExp(`[^\\n${winAnsiCharacters}]`, "gu");
+// Letters whose stroke is part of the letter, so they do not decompose.
+const strokedLetters: Record<string, string> = { Ł: "L", ł: "l", Đ: "D", đ: "d", ı: "i" };
+
+/**
+ * Checks that text can be drawn in the PDF export. Line breaks are only
+ * allowed when `multiline` is set.
+ */
+export function isPdfText(value: string, multiline = false) {
+  return (multiline ? value.split(/\r?\n/) : [value]).every((line) => winAnsiLine.test(line));
+}
+
+export const pdfTextError = "can only use Latin letters, digits and punctuation.";
+
+/**
+ * Makes text safe to draw in the PDF export, for anything saved before it
+ * was checked or brought in by an import: accents the fonts lack are
+ * dropped where the letter survives without them, and anything else
+ * becomes "?".
+ */
+export function toPdfText(value: string) {
+  return value.replace(notWinAnsi, (character) => {
+    if (/\s/.test(character)) {
+      return " ";
+    }
+    if (character in strokedLetters) {
+      return strokedLetters[character];
+    }
+    const base = character.normalize("NFD").replace(/\p{M}/gu, "");
+    return base && winAnsiLine.test(base) ? base : "?";
+  });
+}
+
+/** Applies `toPdfText` to every text field of a record. */
+export function toPdfFields<T extends object>(record: T): T {
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [
+      key,
+      typeof value === "string" ? toPdfText(value) : value,
+    ]),
+  ) as T;
+}
@@ -0,0 +1,212 @@
+import type { PDFFont, PDFPage } from "pdf-lib";
+import { rgb } from "pdf-lib";
+import type { AnnotatedGap, DateRange } from "./gaps";
+import type { Address } from "./storage";
+
+type TimelineOptions = {
+  page: PDFPage;
+  x: number;
+  /** Where the top of the chart goes; the chart grows downwards from here. */
+  y: number;
+  /** The lowest the chart may reach; bars are squeezed to stay above it. */
+  minY: number;
+  width: number;
+  addresses: Address[];
+  gaps: AnnotatedGap[];
+  range: DateRange;
+  /** The number each address has in the summary list, shown on its bar. */
+  addressNumbers: Map<string, number>;
+  font: PDFFont;
+  bold: PDFFont;
+};
+
+const dayMs = 24 * 60 * 60 * 1000;
+const barHeight = 14;
+const laneGap = 4;
+const labelSize = 8;
+const minLabelSpacing = 32;
+const barColors = [rgb(0.2, 0.4, 0.7), rgb(0.35, 0.58, 0.85)];
+const gapColor = rgb(0.85, 0.15, 0.15);
+const explainedGapColor = rgb(0.15, 0.6, 0.35);
+// Room taken by the heading above the bars and the axis and legend below.
+const headerHeight = 22;
+const footerHeight = 5 + labelSize + 18 + 12;
+const axisColor = rgb(0.35, 0.35, 0.35);
+
+function toTime(value: string) {
+  return Date.parse(`${value}T00:00:00Z`);
+}
+
+/**
+ * Puts each address in the first lane where it does not overlap the one
+ * before it, so a history without overlaps draws as a single row. Moving
+ * out and in on the same day is not an overlap.
+ */
+function assignLanes(addresses: Address[], range: DateRange) {
+  const laneEnds: string[] = [];
+  return addresses
+    .filter(
+      (address) => address.startDate <= range.end && (address.endDate ?? range.end) >= range.start,
+    )
+    .map((address) => {
+      const end = address.endDate ?? range.end;
+      let lane = laneEnds.findIndex((laneEnd) => laneEnd <= address.startDate);
+      if (lane === -1) {
+        lane = laneEnds.length;
+        laneEnds.push(end);
+      } else {
+        laneEnds[lane] = end;
+      }
+      return { address, lane };
+    });
+}
+
+function countLanes(placed: { lane: number }[]) {
+  return Math.max(1, ...placed.map(({ lane }) => lane + 1));
+}
+
+/**
+ * The least room the timeline needs: its bars can be squeezed to half size
+ * before it is better off on a page of its own.
+ */
+export function getTimelineHeight(addresses: Address[], range: DateRange) {
+  const laneCount = countLanes(assignLanes(addresses, range));
+  return headerHeight + (laneCount * (barHeight + laneGap)) / 2 + laneGap + footerHeight;
+}
+
+/**
+ * Draws the address history as bars across the export range with coverage
+ * gaps shaded red, or green once explained, year ticks and a legend.
+ * Returns the y position just below the chart.
+ */
+export function drawTimeline({
+  page,
+  x,
+  y,
+  minY,
+  width,
+  addresses,
+  gaps,
+  range,
+  addressNumbers,
+  font,
+  bold,
+}: TimelineOptions) {
+  const start = toTime(range.start);
+  // Dates are inclusive, so the chart runs to the end of the last day.
+  const end = toTime(range.end) + dayMs;
+  const span = Math.max(end - start, dayMs);
+  const toX = (time: number) =>
+    x + (Math.min(Math.max(time, start), end) - start) / span * width;
+
+  page.drawText("Timeline", { x, y: y - 12, size: 12, font: bold });
+  const chartTop = y - headerHeight;
+  const placed = assignLanes(addresses, range);
+  const laneCount = countLanes(placed);
+  // Many overlapping addresses get thinner bars rather than running off
+  // the page.
+  const room = y - minY - headerHeight - footerHeight - laneGap;
+  const scale = Math.min(1, room / (laneCount * (barHeight + laneGap)));
+  const barSize = barHeight * scale;
+  const gapSize = laneGap * scale;
+  const chartHeight = laneCount * (barSize + gapSize) + gapSize;
+  const chartBottom = chartTop - chartHeight;
+
+  page.drawRectangle({
+    x,
+    y: chartBottom,
+    width,
+    height: chartHeight,
+    color: rgb(0.96, 0.96, 0.96),
+  });
+  for (const gap of gaps) {
+    const left = toX(toTime(gap.start));
+    page.drawRectangle({
+      x: left,
+      y: chartBottom,
+      width: Math.max(toX(toTime(gap.end) + dayMs) - left, 1),
+      height: chartHeight,
+      color: gap.annotation ? explainedGapColor : gapColor,
+      opacity: 0.35,
+    });
+  }
+
+  placed.forEach(({ address, lane }, index) => {
+    const left = toX(toTime(address.startDate));
+    const barWidth = Math.max(toX(toTime(address.endDate ?? range.end) + dayMs) - left, 1);
+    const barY = chartTop - gapSize - (lane + 1) * barSize - lane * gapSize;
+    page.drawRectangle({
+      x: left,
+      y: barY,
+      width: barWidth,
+      height: barSize,
+      color: barColors[index % barColors.length],
+    });
+    const label = String(addressNumbers.get(address.id) ?? index + 1);
+    const labelWidth = bold.widthOfTextAtSize(label, labelSize);
+    if (labelWidth + 4 <= barWidth && labelSize + 2 <= barSize) {
+      page.drawText(label, {
+        x: left + (barWidth - labelWidth) / 2,
+        y: barY + (barSize - labelSize) / 2 + 1,
+        size: labelSize,
+        font: bold,
+        color: rgb(1, 1, 1),
+      });
+    }
+  });
+
+  // A tick on every 1 January; labels thin out so they never collide.
+  page.drawLine({
+    start: { x, y: chartBottom },
+    end: { x: x + width, y: chartBottom },
+    thickness: 0.75,
+    color: axisColor,
+  });
+  const firstYear = new Date(start).getUTCFullYear() + 1;
+  const lastYear = new Date(end - 1).getUTCFullYear();
+  const years = lastYear - firstYear + 1;
+  const labelEvery = Math.max(1, Math.ceil((years * minLabelSpacing) / width));
+  for (let year = firstYear; year <= lastYear; year += 1) {
+    const tickX = toX(Date.UTC(year, 0, 1));
+    const labelled = year % labelEvery === 0;
+    page.drawLine({
+      start: { x: tickX, y: chartBottom },
+      end: { x: tickX, y: chartBottom - (labelled ? 5 : 3) },
+      thickness: 0.75,
+      color: axisColor,
+    });
+    if (labelled) {
+      const label = String(year);
+      page.drawText(label, {
+        x: tickX - font.widthOfTextAtSize(label, labelSize) / 2,
+        y: chartBottom - 5 - labelSize - 2,
+        size: labelSize,
+        font,
+        color: axisColor,
+      });
+    }
+  }
+
+  const legendY = chartBottom - 5 - labelSize - 18;
+  const legend = [
+    { color: barColors[0], opacity: 1, label: "Address (numbered as in the list below)" },
+    { color: gapColor, opacity: 0.35, label: "Gap in coverage" },
+    ...(gaps.some((gap) => gap.annotation)
+      ? [{ color: explainedGapColor, opacity: 0.35, label: "Gap with an explanation" }]
+      : []),
+  ];
+  let legendX = x;
+  for (const item of legend) {
+    page.drawRectangle({
+      x: legendX,
+      y: legendY,
+      width: 10,
+      height: 8,
+      color: item.color,
+      opacity: item.opacity,
+    });
+    page.drawText(item.label, { x: legendX + 14, y: legendY, size: labelSize, font });
+    legendX += 14 + font.widthOfTextAtSize(item.label, labelSize) + 18;
+  }
+  return legendY - 12;
+}
@@ -0,0 +1,101 @@
+export type PostcodeKind = "standard" | "girobank" | "bfpo" | "overseas-territory";
+
+export type ParsedPostcode = {
+  kind: PostcodeKind;
+  /** Canonical form, upper case with a single space, e.g. "SW1A 1AA". */
+  postcode: string;
+  outward: string;
+  inward: string;
+  /** Letters that start the outward code, e.g. "SW". Empty for BFPO. */
+  area: string;
+  /** The full outward code, e.g. "SW1A". */
+  district: string;
+  /** Outward code plus the inward digit, e.g. "SW1A 1". */
+  sector: string;
+  /** The two inward letters, e.g. "AA". */
+  unit: string;
+};
+
+// Outward: A9, A99, A9A, AA9, AA99 or AA9A, with the letters each position
+// may use. Inward: a digit then two letters, never C, I, K, M, O or V.
+const standardPattern =
+  /^([A-PR-UWYZ](?:[0-9]{1,2}|[0-9][A-HJKPSTUW]|[A-HK-Y][0-9]{1,2}|[A-HK-Y][0-9][ABEHMNPRVWXY]))([0-9][ABD-HJLNP-UW-Z]{2})$/;
+const bfpoPattern = /^BFPO(\d{1,4})$/;
+
+// British Overseas Territories use fixed, non-geographic postcodes.
+const overseasTerritories = new Set([
+  "ASCN1ZZ",
+  "BBND1ZZ",
+  "BIQQ1ZZ",
+  "FIQQ1ZZ",
+  "GX111AA",
+  "PCRN1ZZ",
+  "SIQQ1ZZ",
+  "STHL1ZZ",
+  "TDCU1ZZ",
+  "TKCA1ZZ",
+]);
+
+const ukCountryNames = new Set([
+  "uk",
+  "u.k.",
+  "gb",
+  "united kingdom",
+  "great britain",
+  "england",
+  "scotland",
+  "wales",
+  "northern ireland",
+]);
+
+export function isUkCountry(country: string | undefined) {
+  return ukCountryNames.has((country ?? "").trim().toLowerCase());
+}
+
+function compact(input: string) {
+  return input.toUpperCase().replace(/\s+/g, "");
+}
+
+function build(kind: PostcodeKind, outward: string, inward: string): ParsedPostcode {
+  const area = kind === "bfpo" ? "" : (outward.match(/^[A-Z]+/)?.[0] ?? "");
+  return {
+    kind,
+    postcode: `${outward} ${inward}`,
+    outward,
+    inward,
+    area,
+    district: outward,
+    sector: kind === "bfpo" ? outward : `${outward} ${inward.charAt(0)}`,
+    unit: kind === "bfpo" ? "" : inward.slice(1),
+  };
+}
+
+/**
+ * Parses a UK postcode in any case or spacing. Returns null when the input
+ * is not a valid postcode.
+ */
+export function parsePostcode(input: string): ParsedPostcode | null {
+  const value = compact(input);
+  if (value === "GIR0AA") {
+    return build("girobank", "GIR", "0AA");
+  }
+  const bfpo = value.match(bfpoPattern);
+  if (bfpo) {
+    return build("bfpo", "BFPO", String(Number(bfpo[1])));
+  }
+  if (overseasTerritories.has(value)) {
+    return build("overseas-territory", value.slice(0, -3), value.slice(-3));
+  }
+  const standard = value.match(standardPattern);
+  if (!standard) {
+    return null;
+  }
+  return build("standard", standard[1], standard[2]);
+}
+
+export function normalizePostcode(input: string) {
+  return parsePostcode(input)?.postcode ?? null;
+}
+
+export const postcodeHint =
+  "Enter a valid UK postcode, for example SW1A 1AA, GIR 0AA or BFPO 1234.";
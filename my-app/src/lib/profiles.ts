@@ -0,0 +1,14 @@
+import type { Profile } from "./storage";
+
+export const defaultProfileName = "Me";
+
+export function buildProfile(name: string, accountId?: string): Profile {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    ...(accountId ? { accountId } : {}),
+    name,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
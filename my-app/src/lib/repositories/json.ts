@@ -0,0 +1,166 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { openData, sealData } from "../encryption";
+import type { Store } from "../storage";
+import type {
+  CollectionName,
+  Collections,
+  StoreRepository,
+  StoreSession,
+} from "../repository";
+import { assertValidRecord, currentSchemaVersion, upgradeStore } from "../schema";
+import {
+  appendQuarantine,
+  isMissingFileError,
+  matchesFilter,
+  withStoreLock,
+} from "./shared";
+
+type Identified = { id: string };
+
+function emptyStore(): Store {
+  return {
+    schemaVersion: currentSchemaVersion,
+    accounts: [],
+    sessions: [],
+    shareLinks: [],
+    profiles: [],
+    addresses: [],
+    documents: [],
+    gapAnnotations: [],
+    exportTemplates: [],
+    trash: [],
+    changes: [],
+  };
+}
+
+/**
+ * Loads a store file, upgrading it to the current schema. Returns null when
+ * the file does not exist yet.
+ */
+export async function readStoreFile(storePath: string) {
+  try {
+    const raw = openData(await fs.readFile(storePath)).toString("utf-8");
+    return upgradeStore(JSON.parse(raw));
+  } catch (error: unknown) {
+    if (isMissingFileError(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Writes go to a temp file that is flushed and then renamed over store.json,
+// so a crash leaves either the old or the new file, never a partial one.
+export async function writeStoreFile(storePath: string, store: Store) {
+  await fs.mkdir(path.dirname(storePath), { recursive: true });
+  const tempPath = `${storePath}.${process.pid}.${crypto.randomUUID()}.tmp`;
+  const handle = await fs.open(tempPath, "w");
+  try {
+    await handle.writeFile(sealData(Buffer.from(JSON.stringify(store, null, 2))));
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  try {
+    await fs.rename(tempPath, storePath);
+  } catch (error: unknown) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+function createMemorySession(store: Store, writable: boolean) {
+  let dirty = false;
+  const items = <K extends CollectionName>(collection: K) =>
+    store[collection] as unknown as Collections[K][];
+  const assertWritable = () => {
+    if (!writable) {
+      throw new Error("Cannot modify the store from a read-only session.");
+    }
+  };
+
+  const session: StoreSession = {
+    async list(collection, filter) {
+      return structuredClone(
+        items(collection).filter((record) => matchesFilter(record, filter)),
+      );
+    },
+    async get(collection, id) {
+      const record = items(collection).find(
+        (item) => (item as Identified).id === id,
+      );
+      return record ? structuredClone(record) : null;
+    },
+    async put(collection, record) {
+      assertWritable();
+      assertValidRecord(collection, record);
+      const list = items(collection);
+      const index = list.findIndex(
+        (item) => (item as Identified).id === (record as Identified).id,
+      );
+      if (index < 0) {
+        list.push(structuredClone(record));
+      } else {
+        list[index] = structuredClone(record);
+      }
+      dirty = true;
+    },
+    async remove(collection, id) {
+      assertWritable();
+      const list = items(collection);
+      const index = list.findIndex((item) => (item as Identified).id === id);
+      if (index >= 0) {
+        list.splice(index, 1);
+        dirty = true;
+      }
+    },
+  };
+  return { session, isDirty: () => dirty };
+}
+
+/**
+ * Keeps the whole store in a single JSON document. Every unit of work loads
+ * the file and, if anything changed, writes it back in one atomic rename.
+ */
+export function createJsonRepository({
+  storePath,
+  quarantinePath,
+}: {
+  storePath: string;
+  quarantinePath: string;
+}): StoreRepository {
+  async function load() {
+    const loaded = await readStoreFile(storePath);
+    if (!loaded) {
+      return emptyStore();
+    }
+    if (loaded.changed) {
+      // Quarantine first: if the rewrite then fails the records are still
+      // in the original file, whereas the reverse order could lose them.
+      await appendQuarantine(quarantinePath, loaded.quarantined);
+      await writeStoreFile(storePath, loaded.store);
+    }
+    return loaded.store;
+  }
+
+  return {
+    read(task) {
+      return withStoreLock(async () => {
+        const { session } = createMemorySession(await load(), false);
+        return task(session);
+      });
+    },
+    mutate(task) {
+      return withStoreLock(async () => {
+        const store = await load();
+        const { session, isDirty } = createMemorySession(store, true);
+        const result = await task(session);
+        if (isDirty()) {
+          await writeStoreFile(storePath, store);
+        }
+        return result;
+      });
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { openData, sealData } from "../encryption";
+import type { CollectionName, RecordFilter } from "../repository";
+import type { QuarantinedRecord } from "../schema";
+
+export const collectionNames: CollectionName[] = [
+  "accounts",
+  "sessions",
+  "shareLinks",
+  "profiles",
+  "addresses",
+  "documents",
+  "gapAnnotations",
+  "exportTemplates",
+  "trash",
+  "changes",
+];
+
+export function matchesFilter(record: object, filter?: RecordFilter) {
+  if (!filter) {
+    return true;
+  }
+  const values = record as RecordFilter;
+  return (Object.keys(filter) as (keyof RecordFilter)[]).every(
+    (key) => filter[key] === undefined || values[key] === filter[key],
+  );
+}
+
+// Route handlers are bundled separately, so the queue lives on globalThis to
+// make sure every handler in the process waits on the same chain.
+const storeQueueKey = Symbol.for("address-history.storeQueue");
+type QueueHolder = { [storeQueueKey]?: Promise<unknown> };
+
+export function withStoreLock<T>(task: () => Promise<T>): Promise<T> {
+  const holder = globalThis as QueueHolder;
+  const previous = holder[storeQueueKey] ?? Promise.resolve();
+  const run = previous.then(task);
+  holder[storeQueueKey] = run.catch(() => undefined);
+  return run;
+}
+
+export function isMissingFileError(error: unknown) {
+  return Boolean(
+    error &&
+      typeof error === "object" &&
+      "code" in error &&
+      (error as { code?: string }).code === "ENOENT",
+  );
+}
+
+/**
+ * Appends records that failed validation on load to the quarantine file, so
+ * nothing is silently dropped and the data can be repaired by hand.
+ */
+export async function appendQuarantine(
+  quarantinePath: string,
+  entries: QuarantinedRecord[],
+) {
+  if (entries.length === 0) {
+    return;
+  }
+  let existing: QuarantinedRecord[] = [];
+  try {
+    existing = JSON.parse(openData(await fs.readFile(quarantinePath)).toString("utf-8"));
+  } catch (error: unknown) {
+    if (!isMissingFileError(error)) {
+      throw error;
+    }
+  }
+  await fs.mkdir(path.dirname(quarantinePath), { recursive: true });
+  await fs.writeFile(
+    quarantinePath,
+    sealData(Buffer.from(JSON.stringify([...existing, ...entries], null, 2))),
+  );
+}
@@ -0,0 +1,235 @@
+import Database from "better-sqlite3";
+import { promises as fs } from "fs";
+import path from "path";
+import type {
+  CollectionName,
+  StoreRepository,
+  StoreSession,
+} from "../repository";
+import { openText, sealText } from "../encryption";
+import { assertValidRecord, currentSchemaVersion, upgradeStore } from "../schema";
+import { readStoreFile } from "./json";
+import { appendQuarantine, collectionNames, withStoreLock } from "./shared";
+
+type Row = { data: string };
+
+const legacyImportKey = "legacyImport";
+const schemaVersionKey = "schemaVersion";
+
+const schema = `
+  CREATE TABLE IF NOT EXISTS records (
+    collection TEXT NOT NULL,
+    id TEXT NOT NULL,
+    profile_id TEXT,
+    address_id TEXT,
+    data TEXT NOT NULL,
+    PRIMARY KEY (collection, id)
+  );
+  CREATE INDEX IF NOT EXISTS records_by_profile ON records (collection, profile_id);
+  CREATE INDEX IF NOT EXISTS records_by_address ON records (collection, address_id);
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+`;
+
+function upsertRecord(
+  db: Database.Database,
+  collection: CollectionName,
+  record: object,
+) {
+  const values = record as { id: string; profileId?: string; addressId?: string };
+  db.prepare(
+    `INSERT INTO records (collection, id, profile_id, address_id, data)
+     VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT (collection, id) DO UPDATE SET
+       profile_id = excluded.profile_id,
+       address_id = excluded.address_id,
+       data = excluded.data`,
+  ).run(
+    collection,
+    values.id,
+    values.profileId ?? null,
+    values.addressId ?? null,
+    sealText(JSON.stringify(record)),
+  );
+}
+
+function parseRow(row: Row) {
+  return JSON.parse(openText(row.data));
+}
+
+function createSqliteSession(db: Database.Database, writable: boolean): StoreSession {
+  const assertWritable = () => {
+    if (!writable) {
+      throw new Error("Cannot modify the store from a read-only session.");
+    }
+  };
+
+  return {
+    async list(collection, filter) {
+      const clauses = ["collection = ?"];
+      const params: string[] = [collection];
+      if (filter?.profileId !== undefined) {
+        clauses.push("profile_id = ?");
+        params.push(filter.profileId);
+      }
+      if (filter?.addressId !== undefined) {
+        clauses.push("address_id = ?");
+        params.push(filter.addressId);
+      }
+      const rows = db
+        .prepare(`SELECT data FROM records WHERE ${clauses.join(" AND ")} ORDER BY rowid`)
+        .all(...params) as Row[];
+      return rows.map(parseRow);
+    },
+    async get(collection, id) {
+      const row = db
+        .prepare("SELECT data FROM records WHERE collection = ? AND id = ?")
+        .get(collection, id) as Row | undefined;
+      return row ? parseRow(row) : null;
+    },
+    async put(collection, record) {
+      assertWritable();
+      assertValidRecord(collection, record);
+      upsertRecord(db, collection, record);
+    },
+    async remove(collection, id) {
+      assertWritable();
+      db.prepare("DELETE FROM records WHERE collection = ? AND id = ?").run(
+        collection,
+        id,
+      );
+    },
+  };
+}
+
+function readMeta(db: Database.Database, key: string) {
+  const row = db.prepare("SELECT value FROM meta WHERE key = ?").get(key) as
+    | { value: string }
+    | undefined;
+  return row?.value ?? null;
+}
+
+function writeMeta(db: Database.Database, key: string, value: string) {
+  db.prepare(
+    "INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value",
+  ).run(key, value);
+}
+
+// One-shot copy of an existing store.json into a fresh database. The JSON
+// file is renamed rather than deleted so it stays around as a backup.
+async function importLegacyStore(
+  db: Database.Database,
+  legacyStorePath: string,
+  quarantinePath: string,
+) {
+  if (readMeta(db, legacyImportKey)) {
+    return;
+  }
+
+  const loaded = await readStoreFile(legacyStorePath);
+  if (loaded) {
+    await appendQuarantine(quarantinePath, loaded.quarantined);
+  }
+  db.transaction(() => {
+    if (loaded) {
+      for (const collection of collectionNames) {
+        for (const record of loaded.store[collection]) {
+          upsertRecord(db, collection, record);
+        }
+      }
+    }
+    writeMeta(db, legacyImportKey, new Date().toISOString());
+    writeMeta(db, schemaVersionKey, String(currentSchemaVersion));
+  })();
+
+  if (loaded) {
+    await fs.rename(legacyStorePath, `${legacyStorePath}.migrated`);
+  }
+}
+
+// Migrations are written against the whole-store shape, so an outdated
+// database is loaded into memory once, upgraded and written back.
+async function migrateDatabase(db: Database.Database, quarantinePath: string) {
+  const version = Number(readMeta(db, schemaVersionKey) ?? 0);
+  if (version === currentSchemaVersion) {
+    return;
+  }
+
+  const raw: Record<string, unknown> = { schemaVersion: version };
+  for (const collection of collectionNames) {
+    const rows = db
+      .prepare("SELECT data FROM records WHERE collection = ? ORDER BY rowid")
+      .all(collection) as Row[];
+    raw[collection] = rows.map(parseRow);
+  }
+  const upgraded = upgradeStore(raw);
+  await appendQuarantine(quarantinePath, upgraded.quarantined);
+
+  db.transaction(() => {
+    db.prepare("DELETE FROM records").run();
+    for (const collection of collectionNames) {
+      for (const record of upgraded.store[collection]) {
+        upsertRecord(db, collection, record);
+      }
+    }
+    writeMeta(db, schemaVersionKey, String(currentSchemaVersion));
+  })();
+}
+
+/**
+ * Keeps each record as a JSON row in an embedded SQLite database, with the
+ * foreign keys pulled out into indexed columns so scoped lists stay cheap.
+ */
+export function createSqliteRepository({
+  databasePath,
+  legacyStorePath,
+  quarantinePath,
+}: {
+  databasePath: string;
+  legacyStorePath: string;
+  quarantinePath: string;
+}): StoreRepository {
+  let opening: Promise<Database.Database> | null = null;
+
+  async function open() {
+    await fs.mkdir(path.dirname(databasePath), { recursive: true });
+    const db = new Database(databasePath);
+    db.pragma("journal_mode = WAL");
+    db.exec(schema);
+    await importLegacyStore(db, legacyStorePath, quarantinePath);
+    await migrateDatabase(db, quarantinePath);
+    return db;
+  }
+
+  function getDatabase() {
+    if (!opening) {
+      opening = open().catch((error: unknown) => {
+        opening = null;
+        throw error;
+      });
+    }
+    return opening;
+  }
+
+  return {
+    read(task) {
+      return withStoreLock(async () => task(createSqliteSession(await getDatabase(), false)));
+    },
+    mutate(task) {
+      return withStoreLock(async () => {
+        const db = await getDatabase();
+        db.exec("BEGIN IMMEDIATE");
+        try {
+          const result = await task(createSqliteSession(db, true));
+          db.exec("COMMIT");
+          return result;
+        } catch (error: unknown) {
+          db.exec("ROLLBACK");
+          throw error;
+        }
+      });
+    },
+  };
+}
@@ -0,0 +1,89 @@
+import type {
+  Account,
+  Address,
+  ChangeEntry,
+  DocumentMeta,
+  ExportTemplate,
+  GapAnnotation,
+  Profile,
+  Session,
+  ShareLink,
+  TrashItem,
+} from "./storage";
+import { createJsonRepository } from "./repositories/json";
+import { createSqliteRepository } from "./repositories/sqlite";
+import { databasePath, quarantinePath, storePath } from "./paths";
+
+export type Collections = {
+  accounts: Account;
+  sessions: Session;
+  shareLinks: ShareLink;
+  profiles: Profile;
+  addresses: Address;
+  documents: DocumentMeta;
+  gapAnnotations: GapAnnotation;
+  exportTemplates: ExportTemplate;
+  trash: TrashItem;
+  changes: ChangeEntry;
+};
+
+export type CollectionName = keyof Collections;
+
+/**
+ * Only the foreign keys are filterable, because those are the columns a
+ * backend can index. Anything else is filtered by the caller.
+ */
+export type RecordFilter = {
+  profileId?: string;
+  addressId?: string;
+};
+
+export interface StoreSession {
+  list<K extends CollectionName>(
+    collection: K,
+    filter?: RecordFilter,
+  ): Promise<Collections[K][]>;
+  get<K extends CollectionName>(
+    collection: K,
+    id: string,
+  ): Promise<Collections[K] | null>;
+  put<K extends CollectionName>(collection: K, record: Collections[K]): Promise<void>;
+  remove<K extends CollectionName>(collection: K, id: string): Promise<void>;
+}
+
+export interface StoreRepository {
+  read<T>(task: (session: StoreSession) => Promise<T>): Promise<T>;
+  /**
+   * Runs the task as a single unit of work: either every change it makes is
+   * persisted or, if it throws, none are.
+   */
+  mutate<T>(task: (session: StoreSession) => Promise<T>): Promise<T>;
+}
+
+export type StorageBackend = "json" | "sqlite";
+
+const repositoryKey = Symbol.for("address-history.repository");
+type RepositoryHolder = { [repositoryKey]?: StoreRepository };
+
+export function getStorageBackend(): StorageBackend {
+  const configured = (process.env.STORAGE_BACKEND ?? "json").toLowerCase();
+  if (configured !== "json" && configured !== "sqlite") {
+    throw new Error(`Unknown STORAGE_BACKEND "${configured}".`);
+  }
+  return configured;
+}
+
+export function getRepository(): StoreRepository {
+  const holder = globalThis as RepositoryHolder;
+  if (!holder[repositoryKey]) {
+    holder[repositoryKey] =
+      getStorageBackend() === "sqlite"
+        ? createSqliteRepository({
+            databasePath: process.env.SQLITE_PATH || databasePath,
+            legacyStorePath: storePath,
+            quarantinePath,
+          })
+        : createJsonRepository({ storePath, quarantinePath });
+  }
+  return holder[repositoryKey];
+}
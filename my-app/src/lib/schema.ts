@@ -0,0 +1,439 @@
+import type { Store } from "./storage";
+import type { CollectionName } from "./repository";
+import { isoDatePattern } from "./dates";
+import { isDocumentCategory } from "./documents";
+import { buildProfile, defaultProfileName } from "./profiles";
+
+type RawRecord = Record<string, unknown>;
+type RawStore = Record<string, unknown> & { schemaVersion?: number };
+
+export type QuarantinedRecord = {
+  collection: CollectionName;
+  reason: string;
+  record: unknown;
+  quarantinedAt: string;
+};
+
+type Migration = {
+  version: number;
+  description: string;
+  migrate: (store: RawStore) => RawStore;
+};
+
+function asRecords(value: unknown): RawRecord[] {
+  return Array.isArray(value) ? (value as RawRecord[]) : [];
+}
+
+/**
+ * Ordered upgrades applied to a loaded store. A store without a
+ * `schemaVersion` is treated as version 0. Append new entries here whenever a
+ * stored type gains or changes fields; never edit one that has shipped.
+ */
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: "Hand ownerless addresses and documents to a default profile",
+    migrate: (store) => {
+      const profiles = asRecords(store.profiles);
+      const addresses = asRecords(store.addresses);
+      const documents = asRecords(store.documents);
+      const ownerless =
+        addresses.some((address) => !address.profileId) ||
+        documents.some((doc) => !doc.profileId);
+      if (ownerless && profiles.length === 0) {
+        profiles.push(buildProfile(defaultProfileName));
+      }
+      const fallbackId = profiles[0]?.id;
+      const addressOwners = new Map<unknown, unknown>();
+      for (const address of addresses) {
+        address.profileId ||= fallbackId;
+        addressOwners.set(address.id, address.profileId);
+      }
+      for (const doc of documents) {
+        doc.profileId ||= addressOwners.get(doc.addressId) ?? fallbackId;
+      }
+      return { ...store, profiles, addresses, documents };
+    },
+  },
+  {
+    version: 2,
+    description: "Add gap annotations",
+    migrate: (store) => ({ ...store, gapAnnotations: asRecords(store.gapAnnotations) }),
+  },
+  {
+    version: 3,
+    description: "Add the change log",
+    migrate: (store) => ({ ...store, changes: asRecords(store.changes) }),
+  },
+  {
+    version: 4,
+    description: "Add the trash bin",
+    migrate: (store) => ({ ...store, trash: asRecords(store.trash) }),
+  },
+  {
+    version: 5,
+    description: "Add accounts and sessions",
+    migrate: (store) => ({
+      ...store,
+      accounts: asRecords(store.accounts),
+      sessions: asRecords(store.sessions),
+    }),
+  },
+  {
+    version: 6,
+    description: "Add share links",
+    migrate: (store) => ({ ...store, shareLinks: asRecords(store.shareLinks) }),
+  },
+  {
+    version: 7,
+    description: "Add export templates",
+    migrate: (store) => ({ ...store, exportTemplates: asRecords(store.exportTemplates) }),
+  },
+];
+
+export const currentSchemaVersion = migrations[migrations.length - 1].version;
+
+function isString(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0;
+}
+
+function isOptionalString(value: unknown) {
+  return value === undefined || typeof value === "string";
+}
+
+function isIsoDate(value: unknown) {
+  return typeof value === "string" && isoDatePattern.test(value);
+}
+
+function requireFields(record: RawRecord, fields: string[]) {
+  const missing = fields.filter((field) => !isString(record[field]));
+  return missing.length > 0 ? `Missing or invalid ${missing.join(", ")}.` : null;
+}
+
+function requireOptionalFields(record: RawRecord, fields: string[]) {
+  const invalid = fields.filter((field) => !isOptionalString(record[field]));
+  return invalid.length > 0 ? `Invalid ${invalid.join(", ")}.` : null;
+}
+
+const trackedCollections: CollectionName[] = [
+  "profiles",
+  "addresses",
+  "documents",
+  "gapAnnotations",
+  "exportTemplates",
+  "trash",
+];
+
+function isStoredImage(value: unknown) {
+  return (
+    value === undefined ||
+    (typeof value === "object" &&
+      value !== null &&
+      isString((value as RawRecord).storedName) &&
+      isString((value as RawRecord).mimeType))
+  );
+}
+
+function isFraction(value: unknown): value is number {
+  return typeof value === "number" && value >= 0 && value <= 1;
+}
+
+function isRedaction(value: unknown) {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const { page, x, y, width, height } = value as RawRecord;
+  return (
+    Number.isInteger(page) &&
+    (page as number) >= 1 &&
+    isFraction(x) &&
+    isFraction(y) &&
+    isFraction(width) &&
+    isFraction(height)
+  );
+}
+
+function isDocumentPage(value: unknown) {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const { page, rotate } = value as RawRecord;
+  return (
+    Number.isInteger(page) &&
+    (page as number) >= 1 &&
+    (rotate === undefined || rotate === 90 || rotate === 180 || rotate === 270)
+  );
+}
+
+function isRecordSnapshot(value: unknown) {
+  return value === null || (typeof value === "object" && !Array.isArray(value));
+}
+
+const validators: Record<CollectionName, (record: RawRecord) => string | null> = {
+  accounts: (record) =>
+    requireFields(record, ["id", "username", "passwordHash", "createdAt", "updatedAt"]),
+  sessions: (record) =>
+    requireFields(record, ["id", "accountId", "createdAt", "expiresAt"]),
+  shareLinks: (record) => {
+    const problem = requireFields(record, [
+      "id",
+      "accountId",
+      "profileId",
+      "createdAt",
+      "expiresAt",
+    ]) ?? requireOptionalFields(record, ["lastAccessedAt", "watermark"]);
+    if (problem) {
+      return problem;
+    }
+    if (record.format !== "pdf" && record.format !== "zip") {
+      return "format must be pdf or zip.";
+    }
+    if (!isIsoDate(record.start) || !isIsoDate(record.end)) {
+      return "start and end must be YYYY-MM-DD dates.";
+    }
+    if (typeof record.singleUse !== "boolean") {
+      return "singleUse is not a boolean.";
+    }
+    if (typeof record.accessCount !== "number" || record.accessCount < 0) {
+      return "accessCount is not a non-negative number.";
+    }
+    return null;
+  },
+  profiles: (record) =>
+    requireFields(record, ["id", "name", "createdAt", "updatedAt"]) ??
+    requireOptionalFields(record, ["accountId"]),
+  addresses: (record) => {
+    const problem =
+      requireFields(record, [
+        "id",
+        "profileId",
+        "line1",
+        "town",
+        "postcode",
+        "country",
+        "createdAt",
+        "updatedAt",
+      ]) ?? requireOptionalFields(record, ["line2", "county", "linkId"]);
+    if (problem) {
+      return problem;
+    }
+    if (!isIsoDate(record.startDate)) {
+      return "startDate is not a YYYY-MM-DD date.";
+    }
+    if (record.endDate !== undefined && !isIsoDate(record.endDate)) {
+      return "endDate is not a YYYY-MM-DD date.";
+    }
+    if (record.allowOverlap !== undefined && typeof record.allowOverlap !== "boolean") {
+      return "allowOverlap is not a boolean.";
+    }
+    return null;
+  },
+  documents: (record) => {
+    const problem = requireFields(record, [
+      "id",
+      "profileId",
+      "addressId",
+      "originalName",
+      "storedName",
+      "mimeType",
+      "uploadedAt",
+    ]);
+    if (problem) {
+      return problem;
+    }
+    if (typeof record.size !== "number" || record.size < 0) {
+      return "size is not a non-negative number.";
+    }
+    if (record.category !== undefined && !isDocumentCategory(record.category)) {
+      return "category is not a known document category.";
+    }
+    if (record.issueDate !== undefined && !isIsoDate(record.issueDate)) {
+      return "issueDate is not a YYYY-MM-DD date.";
+    }
+    if (
+      record.redactions !== undefined &&
+      !(Array.isArray(record.redactions) && record.redactions.every(isRedaction))
+    ) {
+      return "redactions is not a list of redaction boxes.";
+    }
+    if (
+      record.pages !== undefined &&
+      !(
+        Array.isArray(record.pages) &&
+        record.pages.length > 0 &&
+        record.pages.every(isDocumentPage)
+      )
+    ) {
+      return "pages is not a list of pages.";
+    }
+    return requireOptionalFields(record, ["issuer"]);
+  },
+  gapAnnotations: (record) => {
+    const problem = requireFields(record, [
+      "id",
+      "profileId",
+      "explanation",
+      "createdAt",
+      "updatedAt",
+    ]);
+    if (problem) {
+      return problem;
+    }
+    if (!isIsoDate(record.start) || !isIsoDate(record.end)) {
+      return "start and end must be YYYY-MM-DD dates.";
+    }
+    return null;
+  },
+  exportTemplates: (record) => {
+    const problem =
+      requireFields(record, ["id", "profileId", "name", "createdAt", "updatedAt"]) ??
+      requireOptionalFields(record, [
+        "title",
+        "applicantName",
+        "reference",
+        "coverText",
+        "declarationText",
+      ]);
+    if (problem) {
+      return problem;
+    }
+    if (record.dateOfBirth !== undefined && !isIsoDate(record.dateOfBirth)) {
+      return "dateOfBirth is not a YYYY-MM-DD date.";
+    }
+    if (typeof record.includeDeclaration !== "boolean") {
+      return "includeDeclaration is not a boolean.";
+    }
+    if (!isStoredImage(record.logo) || !isStoredImage(record.signature)) {
+      return "logo and signature must be stored images.";
+    }
+    return null;
+  },
+  trash: (record) => {
+    const problem = requireFields(record, ["id", "profileId", "addressId", "deletedAt"]);
+    if (problem) {
+      return problem;
+    }
+    if (record.kind !== "address" && record.kind !== "document") {
+      return "kind must be address or document.";
+    }
+    if (record.kind === "address" && validateRecord("addresses", record.address)) {
+      return "address is not a valid address.";
+    }
+    if (!Array.isArray(record.documents)) {
+      return "documents is not a list.";
+    }
+    return record.documents.some((doc) => validateRecord("documents", doc))
+      ? "documents contains an invalid document."
+      : null;
+  },
+  changes: (record) => {
+    const problem =
+      requireFields(record, ["id", "action", "createdAt"]) ??
+      requireOptionalFields(record, ["revertOf"]);
+    if (problem) {
+      return problem;
+    }
+    if (!Array.isArray(record.records)) {
+      return "records is not a list.";
+    }
+    const invalid = (record.records as RawRecord[]).some(
+      (change) =>
+        !change ||
+        !trackedCollections.includes(change.collection as CollectionName) ||
+        !isString(change.id) ||
+        !isRecordSnapshot(change.before) ||
+        !isRecordSnapshot(change.after),
+    );
+    return invalid ? "records contains an invalid entry." : null;
+  },
+};
+
+/**
+ * Returns why a record does not match the current schema, or null when it is
+ * valid. Used both to screen records on load and to refuse bad writes.
+ */
+export function validateRecord(collection: CollectionName, record: unknown) {
+  if (!record || typeof record !== "object" || Array.isArray(record)) {
+    return "Record is not an object.";
+  }
+  return validators[collection](record as RawRecord);
+}
+
+export function assertValidRecord(collection: CollectionName, record: unknown) {
+  const problem = validateRecord(collection, record);
+  if (problem) {
+    throw new Error(`Refusing to store invalid ${collection} record: ${problem}`);
+  }
+}
+
+/**
+ * Runs any pending migrations and splits the result into records that pass
+ * validation and records that are quarantined. Documents whose address did
+ * not survive are quarantined too, since nothing could ever reach them.
+ */
+export function upgradeStore(raw: unknown) {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("Store file is not a JSON object.");
+  }
+  let store = raw as RawStore;
+  const startVersion = typeof store.schemaVersion === "number" ? store.schemaVersion : 0;
+  if (startVersion > currentSchemaVersion) {
+    throw new Error(
+      `Store schema version ${startVersion} is newer than this app supports (${currentSchemaVersion}).`,
+    );
+  }
+  for (const migration of migrations) {
+    if (migration.version > startVersion) {
+      store = { ...migration.migrate(store), schemaVersion: migration.version };
+    }
+  }
+
+  const quarantinedAt = new Date().toISOString();
+  const quarantined: QuarantinedRecord[] = [];
+  const screen = (collection: CollectionName) =>
+    asRecords(store[collection]).filter((record) => {
+      const reason = validateRecord(collection, record);
+      if (reason) {
+        quarantined.push({ collection, reason, record, quarantinedAt });
+      }
+      return !reason;
+    });
+
+  const accounts = screen("accounts") as Store["accounts"];
+  const sessions = screen("sessions") as Store["sessions"];
+  const shareLinks = screen("shareLinks") as Store["shareLinks"];
+  const profiles = screen("profiles") as Store["profiles"];
+  const addresses = screen("addresses") as Store["addresses"];
+  const addressIds = new Set(addresses.map((address) => address.id));
+  const documents = (screen("documents") as Store["documents"]).filter((doc) => {
+    if (!addressIds.has(doc.addressId)) {
+      quarantined.push({
+        collection: "documents",
+        reason: "References an address that does not exist.",
+        record: doc,
+        quarantinedAt,
+      });
+      return false;
+    }
+    return true;
+  });
+
+  const upgraded: Store = {
+    schemaVersion: currentSchemaVersion,
+    accounts,
+    sessions,
+    shareLinks,
+    profiles,
+    addresses,
+    documents,
+    gapAnnotations: screen("gapAnnotations") as Store["gapAnnotations"],
+    exportTemplates: screen("exportTemplates") as Store["exportTemplates"],
+    trash: screen("trash") as Store["trash"],
+    changes: screen("changes") as Store["changes"],
+  };
+  return {
+    store: upgraded,
+    changed: startVersion !== currentSchemaVersion || quarantined.length > 0,
+    quarantined,
+  };
+}
@@ -0,0 +1,26 @@
+// Cookie handling for sessions, kept apart from `auth.ts` so the proxy can
+// use it without loading the store.
+
+export const sessionCookieName = "address-history.session";
+export const sessionMaxAgeSeconds = 14 * 24 * 60 * 60;
+
+export function sessionCookieOptions(request: Request) {
+  return {
+    httpOnly: true,
+    sameSite: "lax" as const,
+    secure: new URL(request.url).protocol === "https:",
+    path: "/",
+    maxAge: sessionMaxAgeSeconds,
+  };
+}
+
+export function readSessionToken(request: Request) {
+  const header = request.headers.get("cookie") ?? "";
+  for (const part of header.split(";")) {
+    const [name, ...value] = part.trim().split("=");
+    if (name === sessionCookieName) {
+      return decodeURIComponent(value.join("="));
+    }
+  }
+  return null;
+}
@@ -0,0 +1,234 @@
+import crypto from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { isIsoDate } from "./dates";
+import { parseWatermark } from "./export";
+import { shareLinkKeyPath } from "./paths";
+import { getRepository } from "./repository";
+import { isMissingFileError } from "./repositories/shared";
+import type { ExportFormat, ShareLink } from "./storage";
+
+export type ShareLinkInput = Pick<
+  ShareLink,
+  "format" | "start" | "end" | "singleUse" | "watermark"
+> & {
+  expiresInHours: number;
+};
+
+/** A share link as shown to its owner, with the token to build the URL from. */
+export type ShareLinkSummary = ShareLink & { token: string };
+
+export const maxShareLinkHours = 30 * 24;
+
+const exportFormats: ExportFormat[] = ["pdf", "zip"];
+
+/**
+ * The HMAC key for share tokens: SHARE_LINK_SECRET when set, otherwise a
+ * random key generated on first use and kept next to the store. Replacing
+ * it invalidates every outstanding link.
+ */
+async function getSigningKey() {
+  if (process.env.SHARE_LINK_SECRET) {
+    return Buffer.from(process.env.SHARE_LINK_SECRET);
+  }
+  try {
+    return await fs.readFile(shareLinkKeyPath);
+  } catch (error) {
+    if (!isMissingFileError(error)) {
+      throw error;
+    }
+  }
+  await fs.mkdir(path.dirname(shareLinkKeyPath), { recursive: true });
+  try {
+    await fs.writeFile(shareLinkKeyPath, crypto.randomBytes(32), { flag: "wx", mode: 0o600 });
+  } catch (error) {
+    // Another request created it first; use theirs.
+    if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+      throw error;
+    }
+  }
+  return fs.readFile(shareLinkKeyPath);
+}
+
+function sign(key: Buffer, payload: string) {
+  return crypto.createHmac("sha256", key).update(payload).digest("base64url");
+}
+
+// Tokens are `<id>.<expiry in unix seconds>.<signature>`, so forged and
+// expired links are turned away before the store is read.
+async function signShareLink(link: ShareLink) {
+  const payload = `${link.id}.${Math.floor(Date.parse(link.expiresAt) / 1000)}`;
+  return `${payload}.${sign(await getSigningKey(), payload)}`;
+}
+
+function isActive(link: ShareLink, now: string) {
+  return link.expiresAt > now && !(link.singleUse && link.accessCount > 0);
+}
+
+/**
+ * Reads the options for a new share link from a request body. A watermark is
+ * only kept for PDF links, as the ZIP holds the files as uploaded.
+ */
+export function parseShareLinkInput(
+  input: Record<string, unknown>,
+): { input: ShareLinkInput } | { error: string } {
+  const { format, start, end, singleUse, expiresInHours } = input;
+  if (!exportFormats.includes(format as ExportFormat)) {
+    return { error: "format must be pdf or zip." };
+  }
+  if (
+    typeof start !== "string" ||
+    typeof end !== "string" ||
+    !isIsoDate(start) ||
+    !isIsoDate(end)
+  ) {
+    return { error: "start and end must be YYYY-MM-DD dates." };
+  }
+  if (start > end) {
+    return { error: "start must be on or before end." };
+  }
+  if (singleUse !== undefined && typeof singleUse !== "boolean") {
+    return { error: "singleUse must be true or false." };
+  }
+  if (
+    typeof expiresInHours !== "number" ||
+    !Number.isInteger(expiresInHours) ||
+    expiresInHours < 1 ||
+    expiresInHours > maxShareLinkHours
+  ) {
+    return { error: `expiresInHours must be a whole number from 1 to ${maxShareLinkHours}.` };
+  }
+  const watermark = parseWatermark(input.watermark);
+  if ("error" in watermark) {
+    return watermark;
+  }
+  return {
+    input: {
+      format: format as ExportFormat,
+      start,
+      end,
+      singleUse: singleUse ?? false,
+      ...(format === "pdf" ? watermark : {}),
+      expiresInHours,
+    },
+  };
+}
+
+/**
+ * Creates a share link for one of the account's profiles and returns it with
+ * its token. Links that can no longer be used are cleared out on the way.
+ */
+export async function createShareLink(
+  accountId: string,
+  profileId: string,
+  { expiresInHours, ...options }: ShareLinkInput,
+): Promise<ShareLinkSummary> {
+  const created = new Date();
+  // Whole seconds, so the expiry in the token matches the stored one exactly.
+  created.setUTCMilliseconds(0);
+  const link: ShareLink = {
+    id: crypto.randomUUID(),
+    accountId,
+    profileId,
+    ...options,
+    accessCount: 0,
+    createdAt: created.toISOString(),
+    expiresAt: new Date(created.getTime() + expiresInHours * 3_600_000).toISOString(),
+  };
+  await getRepository().mutate(async (session) => {
+    for (const existing of await session.list("shareLinks")) {
+      if (!isActive(existing, link.createdAt)) {
+        await session.remove("shareLinks", existing.id);
+      }
+    }
+    await session.put("shareLinks", link);
+  });
+  return { ...link, token: await signShareLink(link) };
+}
+
+/** The profile's links that can still be opened, newest first. */
+export async function listShareLinks(accountId: string, profileId: string) {
+  const now = new Date().toISOString();
+  const links = await getRepository().read((session) =>
+    session.list("shareLinks", { profileId }),
+  );
+  const active = links
+    .filter((link) => link.accountId === accountId && isActive(link, now))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return Promise.all(
+    active.map(async (link): Promise<ShareLinkSummary> => ({
+      ...link,
+      token: await signShareLink(link),
+    })),
+  );
+}
+
+/** Revokes one of the account's links. Returns null if it has none by that id. */
+export function revokeShareLink(accountId: string, id: string) {
+  return getRepository().mutate(async (session) => {
+    const link = await session.get("shareLinks", id);
+    if (!link || link.accountId !== accountId) {
+      return null;
+    }
+    await session.remove("shareLinks", id);
+    return link;
+  });
+}
+
+/**
+ * Checks a token's signature and expiry and that the link may still be
+ * used, without counting the visit; see `countShareLinkVisit`.
+ */
+export async function verifyShareToken(
+  token: string,
+): Promise<{ link: ShareLink } | { error: string; status: number }> {
+  const [id, expiry, signature, ...rest] = token.split(".");
+  if (!id || !expiry || !signature || rest.length > 0) {
+    return { error: "This link is not valid.", status: 404 };
+  }
+  const expected = Buffer.from(sign(await getSigningKey(), `${id}.${expiry}`));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return { error: "This link is not valid.", status: 404 };
+  }
+  if (Number(expiry) * 1000 <= Date.now()) {
+    return { error: "This link has expired.", status: 410 };
+  }
+  const link = await getRepository().read((session) => session.get("shareLinks", id));
+  return checkShareLinkUsable(link);
+}
+
+function checkShareLinkUsable(
+  link: ShareLink | null | undefined,
+): { link: ShareLink } | { error: string; status: number } {
+  if (!link) {
+    return { error: "This link has been revoked.", status: 410 };
+  }
+  if (link.singleUse && link.accessCount > 0) {
+    return { error: "This link has already been used.", status: 410 };
+  }
+  return { link };
+}
+
+/**
+ * Counts a visit to a link once its export is ready to send. A single-use
+ * link is spent here, so a request that fails before this leaves it
+ * usable, and of two requests racing for it only the first one counts.
+ */
+export function countShareLinkVisit(
+  id: string,
+): Promise<{ link: ShareLink } | { error: string; status: number }> {
+  return getRepository().mutate(async (session) => {
+    const usable = checkShareLinkUsable(await session.get("shareLinks", id));
+    if ("error" in usable) {
+      return usable;
+    }
+    const visited: ShareLink = {
+      ...usable.link,
+      accessCount: usable.link.accessCount + 1,
+      lastAccessedAt: new Date().toISOString(),
+    };
+    await session.put("shareLinks", visited);
+    return { link: visited };
+  });
+}
@@ -1,8 +1,43 @@
 import { promises as fs } from "fs";
 import path from "path";
+import type { DocumentCategory } from "./documents";
+import { openData, sealData } from "./encryption";
+import type { ExportTemplateFields } from "./exportTemplates";
+import { storePath, uploadsDir } from "./paths";
+import { buildProfile, defaultProfileName } from "./profiles";
+import type { CollectionName, Collections, StoreSession } from "./repository";
+import { getRepository } from "./repository";
+import { isMissingFileError } from "./repositories/shared";
+
+export type Profile = {
+  id: string;
+  /** Unset only for profiles created before accounts existed. */
+  accountId?: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type Account = {
+  id: string;
+  username: string;
+  passwordHash: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** A signed-in browser. The id is a hash of the cookie token, not the token. */
+export type Session = {
+  id: string;
+  accountId: string;
+  createdAt: string;
+  expiresAt: string;
+};
 
 export type Address = {
   id: string;
+  profileId: string;
+  linkId?: string;
   line1: string;
   line2?: string;
   town: string;
@@ -11,30 +46,288 @@ export type Address = {
   country: string;
   startDate: string;
   endDate?: string;
+  allowOverlap?: boolean;
   createdAt: string;
   updatedAt: string;
 };
 
 export type DocumentMeta = {
   id: string;
+  profileId: string;
   addressId: string;
   originalName: string;
   storedName: string;
   mimeType: string;
   size: number;
   uploadedAt: string;
+  category?: DocumentCategory;
+  issueDate?: string;
+  issuer?: string;
+  redactions?: Redaction[];
+  /** The pages to export, in order, when not all of them. */
+  pages?: DocumentPage[];
+};
+
+/** A page picked for export, turned clockwise by `rotate` degrees. */
+export type DocumentPage = {
+  page: number;
+  rotate?: 90 | 180 | 270;
+};
+
+/**
+ * A box blacked out of one page of a document when it is exported. Positions
+ * are fractions of the page as uploaded, before any `rotate` of its own,
+ * measured from its top-left corner, so they hold at any rendering size.
+ */
+export type Redaction = {
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type DocumentDetails = Pick<DocumentMeta, "category" | "issueDate" | "issuer">;
+
+export type GapAnnotation = {
+  id: string;
+  profileId: string;
+  start: string;
+  end: string;
+  explanation: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** An image kept in the uploads directory alongside documents. */
+export type StoredImage = {
+  storedName: string;
+  mimeType: string;
+};
+
+/**
+ * Cover details and a declaration for the PDF export. Templates belong to a
+ * profile so the same applicant details can be reused for every export.
+ */
+export type ExportTemplate = {
+  id: string;
+  profileId: string;
+  name: string;
+  title?: string;
+  applicantName?: string;
+  dateOfBirth?: string;
+  reference?: string;
+  coverText?: string;
+  includeDeclaration: boolean;
+  declarationText?: string;
+  logo?: StoredImage;
+  signature?: StoredImage;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ExportFormat = "pdf" | "zip";
+
+/**
+ * Read-only access to one export of a profile over a fixed date range, for
+ * someone without an account. The link itself is a signed token; see
+ * `shareLinks.ts`.
+ */
+export type ShareLink = {
+  id: string;
+  accountId: string;
+  profileId: string;
+  format: ExportFormat;
+  start: string;
+  end: string;
+  singleUse: boolean;
+  /** Stamped on the attached documents of a PDF link. */
+  watermark?: string;
+  accessCount: number;
+  lastAccessedAt?: string;
+  createdAt: string;
+  expiresAt: string;
+};
+
+/**
+ * A deleted address (with the documents it had) or a single deleted
+ * document, kept until it is restored or purged.
+ */
+export type TrashItem = {
+  id: string;
+  profileId: string;
+  addressId: string;
+  kind: "address" | "document";
+  deletedAt: string;
+  address?: Address;
+  documents: DocumentMeta[];
+};
+
+// Credentials, sessions and share links are kept out of the change log:
+// undoing a login or bringing back a revoked link is not something anyone
+// should be able to do.
+const untrackedCollections = new Set<CollectionName>([
+  "accounts",
+  "sessions",
+  "shareLinks",
+  "changes",
+]);
+
+export type TrackedCollection = Exclude<
+  CollectionName,
+  "accounts" | "sessions" | "shareLinks" | "changes"
+>;
+
+/** One record's state before and after a change; `null` means absent. */
+export type RecordChange = {
+  [K in TrackedCollection]: {
+    collection: K;
+    id: string;
+    before: Collections[K] | null;
+    after: Collections[K] | null;
+  };
+}[TrackedCollection];
+
+export type ChangeAction =
+  | "profile.create"
+  | "profile.update"
+  | "profile.delete"
+  | "profile.import"
+  | "gapAnnotation.save"
+  | "gapAnnotation.delete"
+  | "exportTemplate.save"
+  | "exportTemplate.delete"
+  | "address.create"
+  | "address.update"
+  | "address.link"
+  | "address.unlink"
+  | "address.delete"
+  | "address.restore"
+  | "document.create"
+  | "document.update"
+  | "document.redact"
+  | "document.arrange"
+  | "document.delete"
+  | "trash.restore"
+  | "trash.purge"
+  | "change.revert";
+
+/**
+ * An entry in the append-only change log. Every mutation below writes one,
+ * listing each record it touched, so any of them can be inspected or undone.
+ */
+export type ChangeEntry = {
+  id: string;
+  action: ChangeAction;
+  createdAt: string;
+  revertOf?: string;
+  records: RecordChange[];
 };
 
 export type Store = {
+  schemaVersion: number;
+  accounts: Account[];
+  sessions: Session[];
+  shareLinks: ShareLink[];
+  profiles: Profile[];
   addresses: Address[];
   documents: DocumentMeta[];
+  gapAnnotations: GapAnnotation[];
+  exportTemplates: ExportTemplate[];
+  trash: TrashItem[];
+  changes: ChangeEntry[];
 };
 
-const dataDir = path.join(process.cwd(), "data");
-const uploadsDir = path.join(dataDir, "uploads");
-const storePath = path.join(dataDir, "store.json");
+/**
+ * Thrown when a write was made against an out-of-date copy of a record.
+ * Carries the record as it currently is so the caller can show it.
+ */
+export class ConflictError<T> extends Error {
+  constructor(public readonly current: T) {
+    super("The record was changed by someone else.");
+  }
+}
+
+/** Thrown when undoing a change that deleted files, which cannot come back. */
+export class IrreversibleChangeError extends Error {
+  constructor() {
+    super("This change cannot be undone.");
+  }
+}
+
+// Purges delete the upload files along with the records.
+const irreversibleActions = new Set<ChangeAction>(["trash.purge"]);
 
-const emptyStore: Store = { addresses: [], documents: [] };
+const linkedFields = [
+  "line1",
+  "line2",
+  "town",
+  "county",
+  "postcode",
+  "country",
+  "startDate",
+  "endDate",
+] as const;
+
+// Records are flat, so sorting the top-level keys is enough to compare two
+// copies regardless of the order a backend returned their fields in.
+function canonicalRecord(record: object | null) {
+  return record && JSON.stringify(record, Object.keys(record).sort());
+}
+
+/**
+ * Runs a mutation and appends a change log entry describing every record it
+ * put or removed, in the same unit of work. Mutations that turn out to change
+ * nothing leave no entry.
+ */
+function recordMutation<T>(
+  action: ChangeAction,
+  task: (session: StoreSession) => Promise<T>,
+  { revertOf }: { revertOf?: string } = {},
+) {
+  return getRepository().mutate(async (session) => {
+    const touched = new Map<string, RecordChange>();
+    const track = async (collection: CollectionName, id: string, after: object | null) => {
+      if (untrackedCollections.has(collection)) {
+        return;
+      }
+      const key = `${collection}:${id}`;
+      const before = touched.get(key)?.before ?? (await session.get(collection, id));
+      touched.set(key, {
+        collection,
+        id,
+        before,
+        after: after && structuredClone(after),
+      } as RecordChange);
+    };
+    const tracked: StoreSession = {
+      list: (collection, filter) => session.list(collection, filter),
+      get: (collection, id) => session.get(collection, id),
+      async put(collection, record) {
+        await track(collection, record.id, record);
+        await session.put(collection, record);
+      },
+      async remove(collection, id) {
+        await track(collection, id, null);
+        await session.remove(collection, id);
+      },
+    };
+    const result = await task(tracked);
+    const records = [...touched.values()].filter(
+      (change) => canonicalRecord(change.before) !== canonicalRecord(change.after),
+    );
+    if (records.length > 0) {
+      await session.put("changes", {
+        id: crypto.randomUUID(),
+        action,
+        createdAt: new Date().toISOString(),
+        ...(revertOf ? { revertOf } : {}),
+        records,
+      });
+    }
+    return result;
+  });
+}
 
 export async function ensureDataDirs() {
   await fs.mkdir(uploadsDir, { recursive: true });
@@ -48,36 +341,303 @@ export function getStorePath() {
   return storePath;
 }
 
-export function getUploadPath(document: DocumentMeta) {
+export function getUploadPath(document: Pick<DocumentMeta, "storedName">) {
   return path.join(uploadsDir, document.storedName);
 }
 
-export async function readStore(): Promise<Store> {
-  await ensureDataDirs();
-  try {
-    const raw = await fs.readFile(storePath, "utf-8");
-    const parsed = JSON.parse(raw) as Store;
-    return {
-      addresses: parsed.addresses ?? [],
-      documents: parsed.documents ?? [],
+/** Writes an upload file, encrypted when encryption is on. */
+async function writeUploadFile(document: Pick<DocumentMeta, "storedName">, data: Buffer) {
+  await fs.writeFile(getUploadPath(document), sealData(data));
+}
+
+/** Reads an upload file and decrypts it in memory. */
+export async function readUploadFile(document: Pick<DocumentMeta, "storedName">) {
+  return openData(await fs.readFile(getUploadPath(document)));
+}
+
+async function listAccountProfiles(session: StoreSession, accountId: string) {
+  const profiles = await session.list("profiles");
+  return profiles.filter((profile) => profile.accountId === accountId);
+}
+
+export function listProfiles(accountId: string) {
+  return getRepository().read((session) => listAccountProfiles(session, accountId));
+}
+
+export function getProfile(id: string) {
+  return getRepository().read((session) => session.get("profiles", id));
+}
+
+/**
+ * Returns the requested profile if the account owns it, or the account's
+ * first profile when none is requested.
+ */
+export async function resolveProfile(profileId: string | null | undefined, accountId: string) {
+  if (profileId) {
+    const profile = await getProfile(profileId);
+    return profile?.accountId === accountId ? profile : null;
+  }
+  const profiles = await listProfiles(accountId);
+  return profiles[0] ?? null;
+}
+
+/**
+ * Hands profiles from before accounts existed to an account. Called when the
+ * first account is created, so existing data isn't stranded.
+ */
+export function claimOwnerlessProfiles(accountId: string) {
+  return recordMutation("profile.update", async (session) => {
+    const profiles = await session.list("profiles");
+    for (const profile of profiles) {
+      if (!profile.accountId) {
+        await session.put("profiles", { ...profile, accountId });
+      }
+    }
+  });
+}
+
+/** Gives a new account its first profile, unless it already has one. */
+export function createDefaultProfile(accountId: string) {
+  return recordMutation("profile.create", async (session) => {
+    if ((await listAccountProfiles(session, accountId)).length > 0) {
+      return;
+    }
+    await session.put("profiles", buildProfile(defaultProfileName, accountId));
+  });
+}
+
+export function getProfileData(profileId: string) {
+  return getRepository().read(async (session) => ({
+    addresses: await session.list("addresses", { profileId }),
+    documents: await session.list("documents", { profileId }),
+    gapAnnotations: await session.list("gapAnnotations", { profileId }),
+  }));
+}
+
+export function getAddress(id: string) {
+  return getRepository().read((session) => session.get("addresses", id));
+}
+
+export function createProfile(name: string, accountId: string) {
+  return recordMutation("profile.create", async (session) => {
+    const profile = buildProfile(name, accountId);
+    await session.put("profiles", profile);
+    return profile;
+  });
+}
+
+export function updateProfile(id: string, updates: Pick<Profile, "name">) {
+  return recordMutation("profile.update", async (session) => {
+    const existing = await session.get("profiles", id);
+    if (!existing) {
+      return null;
+    }
+    const updated: Profile = {
+      ...existing,
+      name: updates.name,
+      updatedAt: new Date().toISOString(),
     };
-  } catch (error: unknown) {
-    if (
-      error &&
-      typeof error === "object" &&
-      "code" in error &&
-      (error as { code?: string }).code === "ENOENT"
-    ) {
-      await writeStore(emptyStore);
-      return emptyStore;
+    await session.put("profiles", updated);
+    return updated;
+  });
+}
+
+// Deleting a profile keeps the upload files of its documents: the change log
+// still references them, and undoing the delete brings the documents back.
+export function deleteProfile(id: string) {
+  return recordMutation("profile.delete", async (session) => {
+    const profile = await session.get("profiles", id);
+    if (!profile) {
+      return null;
+    }
+    const siblings = profile.accountId
+      ? await listAccountProfiles(session, profile.accountId)
+      : await session.list("profiles");
+    if (siblings.length === 1) {
+      throw new Error("At least one profile must remain.");
+    }
+    const addresses = await session.list("addresses", { profileId: id });
+    const documents = await session.list("documents", { profileId: id });
+    const annotations = await session.list("gapAnnotations", { profileId: id });
+    for (const template of await session.list("exportTemplates", { profileId: id })) {
+      await session.remove("exportTemplates", template.id);
+    }
+    for (const item of await session.list("trash", { profileId: id })) {
+      await session.remove("trash", item.id);
+    }
+    for (const annotation of annotations) {
+      await session.remove("gapAnnotations", annotation.id);
+    }
+    for (const doc of documents) {
+      await session.remove("documents", doc.id);
+    }
+    for (const address of addresses) {
+      await session.remove("addresses", address.id);
+    }
+    await session.remove("profiles", id);
+    await releaseOrphanLinks(session, addresses);
+    return profile;
+  });
+}
+
+/**
+ * Records why a gap exists. Annotations are keyed by their date range within
+ * a profile, so saving the same range again replaces the explanation.
+ */
+export function saveGapAnnotation({
+  profileId,
+  start,
+  end,
+  explanation,
+}: Pick<GapAnnotation, "profileId" | "start" | "end" | "explanation">) {
+  return recordMutation("gapAnnotation.save", async (session) => {
+    const annotations = await session.list("gapAnnotations", { profileId });
+    const existing = annotations.find(
+      (annotation) => annotation.start === start && annotation.end === end,
+    );
+    const now = new Date().toISOString();
+    const annotation: GapAnnotation = existing
+      ? { ...existing, explanation, updatedAt: now }
+      : {
+          id: crypto.randomUUID(),
+          profileId,
+          start,
+          end,
+          explanation,
+          createdAt: now,
+          updatedAt: now,
+        };
+    await session.put("gapAnnotations", annotation);
+    return annotation;
+  });
+}
+
+export function getGapAnnotation(id: string) {
+  return getRepository().read((session) => session.get("gapAnnotations", id));
+}
+
+export function deleteGapAnnotation(id: string) {
+  return recordMutation("gapAnnotation.delete", async (session) => {
+    const existing = await session.get("gapAnnotations", id);
+    if (existing) {
+      await session.remove("gapAnnotations", id);
+    }
+    return existing;
+  });
+}
+
+export function listExportTemplates(profileId: string) {
+  return getRepository().read(async (session) =>
+    (await session.list("exportTemplates", { profileId })).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    ),
+  );
+}
+
+export function getExportTemplate(id: string) {
+  return getRepository().read((session) => session.get("exportTemplates", id));
+}
+
+export type TemplateImageUpload = {
+  data: ArrayBuffer;
+  mimeType: string;
+};
+
+/**
+ * Creates a template, or replaces the fields of the profile's template `id`.
+ * An image left undefined is kept and `null` removes it. New image files are
+ * written first and removed again if the save does not happen; replaced ones
+ * stay on disk so the change can be undone. Returns null if `id` is unknown.
+ */
+export async function saveExportTemplate({
+  id,
+  profileId,
+  fields,
+  logo,
+  signature,
+}: {
+  id?: string;
+  profileId: string;
+  fields: ExportTemplateFields;
+  logo?: TemplateImageUpload | null;
+  signature?: TemplateImageUpload | null;
+}) {
+  const written: StoredImage[] = [];
+  const writeImage = async (upload: TemplateImageUpload | null | undefined) => {
+    if (!upload) {
+      return upload;
     }
+    const image: StoredImage = {
+      storedName: buildStoredName(crypto.randomUUID(), "", upload.mimeType),
+      mimeType: upload.mimeType,
+    };
+    await ensureDataDirs();
+    await writeUploadFile(image, Buffer.from(upload.data));
+    written.push(image);
+    return image;
+  };
+
+  let saved: ExportTemplate | null;
+  try {
+    const logoImage = await writeImage(logo);
+    const signatureImage = await writeImage(signature);
+    saved = await recordMutation("exportTemplate.save", async (session) => {
+      const existing = id ? await session.get("exportTemplates", id) : null;
+      if (id && existing?.profileId !== profileId) {
+        return null;
+      }
+      const now = new Date().toISOString();
+      const template: ExportTemplate = {
+        id: existing?.id ?? crypto.randomUUID(),
+        profileId,
+        ...fields,
+        logo: logoImage === undefined ? existing?.logo : (logoImage ?? undefined),
+        signature:
+          signatureImage === undefined ? existing?.signature : (signatureImage ?? undefined),
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      await session.put("exportTemplates", template);
+      return template;
+    });
+  } catch (error: unknown) {
+    await deleteUploadFiles(written);
     throw error;
   }
+  if (!saved) {
+    await deleteUploadFiles(written);
+  }
+  return saved;
 }
 
-export async function writeStore(store: Store) {
-  await ensureDataDirs();
-  await fs.writeFile(storePath, JSON.stringify(store, null, 2), "utf-8");
+/** Deletes a template. Its image files are kept so the delete can be undone. */
+export function deleteExportTemplate(id: string) {
+  return recordMutation("exportTemplate.delete", async (session) => {
+    const existing = await session.get("exportTemplates", id);
+    if (existing) {
+      await session.remove("exportTemplates", id);
+    }
+    return existing;
+  });
+}
+
+// A link only makes sense between two or more addresses; once every other
+// copy is gone the survivor goes back to being a plain address.
+async function releaseOrphanLinks(session: StoreSession, changed: Address[]) {
+  const linkIds = new Set(
+    changed.map((address) => address.linkId).filter(Boolean) as string[],
+  );
+  if (linkIds.size === 0) {
+    return;
+  }
+  const addresses = await session.list("addresses");
+  for (const linkId of linkIds) {
+    const linked = addresses.filter((address) => address.linkId === linkId);
+    if (linked.length === 1) {
+      const { linkId: _linkId, ...rest } = linked[0];
+      await session.put("addresses", rest);
+    }
+  }
 }
 
 export function sortAddresses(addresses: Address[]) {
@@ -89,48 +649,140 @@ export function sortAddresses(addresses: Address[]) {
   });
 }
 
-export async function createAddress(input: Omit<Address, "id" | "createdAt" | "updatedAt">) {
-  const store = await readStore();
-  const now = new Date().toISOString();
-  const address: Address = {
-    id: crypto.randomUUID(),
-    createdAt: now,
-    updatedAt: now,
-    ...input,
-  };
-  store.addresses.push(address);
-  await writeStore(store);
-  return address;
+export function createAddress(input: Omit<Address, "id" | "createdAt" | "updatedAt">) {
+  return recordMutation("address.create", async (session) => {
+    const now = new Date().toISOString();
+    const address: Address = {
+      id: crypto.randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+      ...input,
+    };
+    await session.put("addresses", address);
+    return address;
+  });
 }
 
-export async function updateAddress(
+/**
+ * Updates an address and any addresses linked to it. When
+ * `expectedUpdatedAt` is given the write only happens if the stored address
+ * still has that version; otherwise a `ConflictError` is thrown.
+ */
+export function updateAddress(
   id: string,
   updates: Partial<Omit<Address, "id" | "createdAt" | "updatedAt">>,
+  { expectedUpdatedAt }: { expectedUpdatedAt?: string } = {},
 ) {
-  const store = await readStore();
-  const index = store.addresses.findIndex((address) => address.id === id);
-  if (index < 0) {
-    return null;
-  }
-  const updated: Address = {
-    ...store.addresses[index],
-    ...updates,
-    updatedAt: new Date().toISOString(),
-  };
-  store.addresses[index] = updated;
-  await writeStore(store);
-  return updated;
+  return recordMutation("address.update", async (session) => {
+    const existing = await session.get("addresses", id);
+    if (!existing) {
+      return null;
+    }
+    if (expectedUpdatedAt && existing.updatedAt !== expectedUpdatedAt) {
+      throw new ConflictError(existing);
+    }
+    const updated: Address = {
+      ...existing,
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    };
+    await writeAddress(session, updated);
+    return updated;
+  });
 }
 
-export async function deleteAddress(id: string) {
-  const store = await readStore();
-  const remainingAddresses = store.addresses.filter((address) => address.id !== id);
-  const removedDocuments = store.documents.filter((doc) => doc.addressId === id);
-  const remainingDocuments = store.documents.filter((doc) => doc.addressId !== id);
-  for (const doc of removedDocuments) {
-    await deleteUploadFile(doc);
+// Saves an address and copies its shared fields onto every linked address.
+async function writeAddress(session: StoreSession, updated: Address) {
+  await session.put("addresses", updated);
+  if (!updated.linkId) {
+    return;
   }
-  await writeStore({ addresses: remainingAddresses, documents: remainingDocuments });
+  const shared = Object.fromEntries(
+    linkedFields.map((field) => [field, updated[field]]),
+  );
+  const addresses = await session.list("addresses");
+  for (const address of addresses) {
+    if (address.linkId === updated.linkId && address.id !== updated.id) {
+      await session.put("addresses", {
+        ...address,
+        ...shared,
+        updatedAt: updated.updatedAt,
+      });
+    }
+  }
+}
+
+export function linkAddress(id: string, profileId: string) {
+  return recordMutation("address.link", async (session) => {
+    const source = await session.get("addresses", id);
+    if (!source || !(await session.get("profiles", profileId))) {
+      return null;
+    }
+    if (source.profileId === profileId) {
+      return source;
+    }
+    const linkId = source.linkId ?? crypto.randomUUID();
+    const targetAddresses = await session.list("addresses", { profileId });
+    const existing = targetAddresses.find((address) => address.linkId === linkId);
+    if (existing) {
+      return existing;
+    }
+    if (!source.linkId) {
+      await session.put("addresses", { ...source, linkId });
+    }
+    const now = new Date().toISOString();
+    const copy: Address = {
+      ...source,
+      id: crypto.randomUUID(),
+      profileId,
+      linkId,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await session.put("addresses", copy);
+    return copy;
+  });
+}
+
+export function unlinkAddress(id: string) {
+  return recordMutation("address.unlink", async (session) => {
+    const existing = await session.get("addresses", id);
+    if (!existing) {
+      return null;
+    }
+    const { linkId: _linkId, ...rest } = existing;
+    const updated: Address = { ...rest, updatedAt: new Date().toISOString() };
+    await session.put("addresses", updated);
+    await releaseOrphanLinks(session, [existing]);
+    return updated;
+  });
+}
+
+/** Moves an address and its documents to the trash. */
+export function deleteAddress(id: string) {
+  return recordMutation("address.delete", async (session) => {
+    const address = await session.get("addresses", id);
+    if (!address) {
+      return null;
+    }
+    const documents = await session.list("documents", { addressId: id });
+    for (const doc of documents) {
+      await session.remove("documents", doc.id);
+    }
+    await session.remove("addresses", id);
+    await releaseOrphanLinks(session, [address]);
+    const item: TrashItem = {
+      id: crypto.randomUUID(),
+      profileId: address.profileId,
+      addressId: id,
+      kind: "address",
+      deletedAt: new Date().toISOString(),
+      address,
+      documents,
+    };
+    await session.put("trash", item);
+    return item;
+  });
 }
 
 function resolveExtension(originalName: string, mimeType: string) {
@@ -150,68 +802,428 @@ function resolveExtension(originalName: string, mimeType: string) {
   return "";
 }
 
+export function buildStoredName(id: string, originalName: string, mimeType: string) {
+  return `${id}${resolveExtension(originalName, mimeType)}`;
+}
+
 export async function createDocument({
+  profileId,
   addressId,
   originalName,
   mimeType,
   size,
   data,
+  details = {},
 }: {
+  profileId: string;
   addressId: string;
   originalName: string;
   mimeType: string;
   size: number;
   data: ArrayBuffer;
+  details?: DocumentDetails;
 }) {
-  const store = await readStore();
   const id = crypto.randomUUID();
-  const storedName = `${id}${resolveExtension(originalName, mimeType)}`;
-  const filePath = path.join(uploadsDir, storedName);
-  await fs.writeFile(filePath, Buffer.from(data));
+  const storedName = buildStoredName(id, originalName, mimeType);
   const document: DocumentMeta = {
     id,
+    profileId,
     addressId,
     originalName,
     storedName,
     mimeType,
     size,
     uploadedAt: new Date().toISOString(),
+    ...details,
   };
-  store.documents.push(document);
-  await writeStore(store);
+  await ensureDataDirs();
+  await writeUploadFile(document, Buffer.from(data));
+  try {
+    await recordMutation("document.create", async (session) => {
+      if (!(await session.get("addresses", addressId))) {
+        throw new Error("Address not found for upload.");
+      }
+      await session.put("documents", document);
+    });
+  } catch (error: unknown) {
+    // The metadata never made it into the store, so the upload would be an
+    // orphan nothing can reach or clean up.
+    await deleteUploadFile(document);
+    throw error;
+  }
   return document;
 }
 
-export async function deleteDocument(id: string) {
-  const store = await readStore();
-  const document = store.documents.find((doc) => doc.id === id);
-  if (!document) {
-    return null;
+/**
+ * Writes a batch of prepared records into a profile in one unit of work.
+ * With `replace` the profile's current addresses, documents and gap
+ * explanations are removed first. Upload files are written before the commit and removed again if it
+ * fails; files belonging to replaced documents are kept for undo.
+ */
+export async function importProfileData({
+  profileId,
+  addresses,
+  documents,
+  gapAnnotations,
+  replace,
+}: {
+  profileId: string;
+  addresses: Address[];
+  documents: { document: DocumentMeta; data: Buffer }[];
+  gapAnnotations: GapAnnotation[];
+  replace: boolean;
+}) {
+  await ensureDataDirs();
+  const written: DocumentMeta[] = [];
+  try {
+    for (const { document, data } of documents) {
+      await writeUploadFile(document, data);
+      written.push(document);
+    }
+    await recordMutation("profile.import", async (session) => {
+      if (!(await session.get("profiles", profileId))) {
+        throw new Error("Profile not found for import.");
+      }
+      if (replace) {
+        const oldAddresses = await session.list("addresses", { profileId });
+        const oldDocuments = await session.list("documents", { profileId });
+        for (const annotation of await session.list("gapAnnotations", { profileId })) {
+          await session.remove("gapAnnotations", annotation.id);
+        }
+        for (const doc of oldDocuments) {
+          await session.remove("documents", doc.id);
+        }
+        for (const address of oldAddresses) {
+          await session.remove("addresses", address.id);
+        }
+        await releaseOrphanLinks(session, oldAddresses);
+      }
+      for (const address of addresses) {
+        await session.put("addresses", address);
+      }
+      for (const { document } of documents) {
+        await session.put("documents", document);
+      }
+      for (const annotation of gapAnnotations) {
+        await session.put("gapAnnotations", annotation);
+      }
+    });
+  } catch (error: unknown) {
+    await deleteUploadFiles(written);
+    throw error;
   }
-  await deleteUploadFile(document);
-  const remaining = store.documents.filter((doc) => doc.id !== id);
-  await writeStore({ addresses: store.addresses, documents: remaining });
-  return document;
 }
 
-export async function deleteUploadFile(document: DocumentMeta) {
+/**
+ * Applies metadata edits to a document. A field set to `undefined` in
+ * `updates` is cleared; fields not present are left alone.
+ */
+export function updateDocument(id: string, updates: DocumentDetails) {
+  return recordMutation("document.update", async (session) => {
+    const existing = await session.get("documents", id);
+    if (!existing) {
+      return null;
+    }
+    const updated: DocumentMeta = { ...existing, ...updates };
+    for (const key of Object.keys(updates) as (keyof DocumentDetails)[]) {
+      if (updates[key] === undefined) {
+        delete updated[key];
+      }
+    }
+    await session.put("documents", updated);
+    return updated;
+  });
+}
+
+/** Replaces a document's redaction boxes; an empty list removes them all. */
+export function setDocumentRedactions(id: string, redactions: Redaction[]) {
+  return recordMutation("document.redact", async (session) => {
+    const existing = await session.get("documents", id);
+    if (!existing) {
+      return null;
+    }
+    const { redactions: _redactions, ...rest } = existing;
+    const updated: DocumentMeta = redactions.length > 0 ? { ...rest, redactions } : rest;
+    await session.put("documents", updated);
+    return updated;
+  });
+}
+
+/** Sets which pages of a document are exported; null goes back to all of them. */
+export function setDocumentPages(id: string, pages: DocumentPage[] | null) {
+  return recordMutation("document.arrange", async (session) => {
+    const existing = await session.get("documents", id);
+    if (!existing) {
+      return null;
+    }
+    const { pages: _pages, ...rest } = existing;
+    const updated: DocumentMeta = pages ? { ...rest, pages } : rest;
+    await session.put("documents", updated);
+    return updated;
+  });
+}
+
+/** Moves a document to the trash. */
+export function deleteDocument(id: string) {
+  return recordMutation("document.delete", async (session) => {
+    const found = await session.get("documents", id);
+    if (!found) {
+      return null;
+    }
+    await session.remove("documents", id);
+    await session.put("trash", {
+      id: crypto.randomUUID(),
+      profileId: found.profileId,
+      addressId: found.addressId,
+      kind: "document",
+      deletedAt: new Date().toISOString(),
+      documents: [found],
+    });
+    return found;
+  });
+}
+
+async function deleteUploadFiles(documents: Pick<DocumentMeta, "storedName">[]) {
+  for (const doc of documents) {
+    await deleteUploadFile(doc);
+  }
+}
+
+export async function deleteUploadFile(document: Pick<DocumentMeta, "storedName">) {
   const filePath = getUploadPath(document);
   try {
     await fs.unlink(filePath);
   } catch (error: unknown) {
-    if (
-      error &&
-      typeof error === "object" &&
-      "code" in error &&
-      (error as { code?: string }).code === "ENOENT"
-    ) {
+    if (isMissingFileError(error)) {
       return;
     }
     throw error;
   }
 }
 
-export async function getDocumentById(id: string) {
-  const store = await readStore();
-  return store.documents.find((doc) => doc.id === id) ?? null;
+export function getDocumentById(id: string) {
+  return getRepository().read((session) => session.get("documents", id));
+}
+
+function touchesAddress(change: ChangeEntry, addressId: string) {
+  return change.records.some((record) =>
+    record.collection === "addresses"
+      ? record.id === addressId
+      : record.collection === "documents" &&
+        (record.before?.addressId === addressId || record.after?.addressId === addressId),
+  );
+}
+
+function addressVersion(change: ChangeEntry, addressId: string) {
+  for (const record of change.records) {
+    if (record.collection === "addresses" && record.id === addressId) {
+      return record.after;
+    }
+  }
+  return null;
+}
+
+/**
+ * Lists the changes that touched an address or its documents, newest first.
+ * Works for deleted addresses too, since the log outlives the records.
+ */
+export function getAddressHistory(addressId: string) {
+  return getRepository().read(async (session) => {
+    const changes = await session.list("changes");
+    return changes
+      .filter((change) => touchesAddress(change, addressId))
+      .reverse()
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  });
+}
+
+export function getChange(id: string) {
+  return getRepository().read((session) => session.get("changes", id));
+}
+
+/** The profiles whose data a change touched, to check who may revert it. */
+export function getChangeProfileIds(change: ChangeEntry) {
+  const profileIds = new Set<string>();
+  for (const record of change.records) {
+    const snapshot = record.after ?? record.before;
+    if (record.collection === "profiles") {
+      profileIds.add(record.id);
+    } else if (snapshot && "profileId" in snapshot) {
+      profileIds.add(snapshot.profileId);
+    }
+  }
+  return [...profileIds];
+}
+
+/**
+ * Undoes a change by putting every record it touched back the way it was.
+ * Throws a `ConflictError` with the current record if any of them has been
+ * changed since, so a later edit is never silently discarded, and an
+ * `IrreversibleChangeError` for a purge.
+ */
+export function revertChange(changeId: string) {
+  return recordMutation(
+    "change.revert",
+    async (session) => {
+      const change = await session.get("changes", changeId);
+      if (!change) {
+        return null;
+      }
+      if (irreversibleActions.has(change.action)) {
+        throw new IrreversibleChangeError();
+      }
+      for (const record of change.records) {
+        const current = await session.get(record.collection, record.id);
+        if (canonicalRecord(current) !== canonicalRecord(record.after)) {
+          throw new ConflictError(current);
+        }
+      }
+      for (const record of [...change.records].reverse()) {
+        if (record.before) {
+          await session.put(record.collection, record.before);
+        } else {
+          await session.remove(record.collection, record.id);
+        }
+      }
+      // Later changes may have added documents to an address the revert
+      // removes, or deleted the address of a document it brings back.
+      for (const record of change.records) {
+        if (record.collection === "addresses" && !record.before) {
+          const [orphan] = await session.list("documents", { addressId: record.id });
+          if (orphan) {
+            throw new ConflictError(orphan);
+          }
+        }
+        if (
+          record.collection === "documents" &&
+          record.before &&
+          !(await session.get("addresses", record.before.addressId))
+        ) {
+          throw new ConflictError(null);
+        }
+      }
+      return change;
+    },
+    { revertOf: changeId },
+  );
+}
+
+/**
+ * Makes the version of an address recorded by a change its current version.
+ * Linked addresses follow as with any other edit. Returns null when the
+ * change holds no version of the address or the address is gone; a deleted
+ * address comes back by reverting the change that deleted it.
+ */
+export function restoreAddressVersion(addressId: string, changeId: string) {
+  return recordMutation("address.restore", async (session) => {
+    const change = await session.get("changes", changeId);
+    const version = change && addressVersion(change, addressId);
+    if (!version) {
+      return null;
+    }
+    const current = await session.get("addresses", addressId);
+    if (!current || !(await session.get("profiles", version.profileId))) {
+      return null;
+    }
+    const { linkId: _linkId, ...fields } = version;
+    const restored: Address = {
+      ...fields,
+      ...(current.linkId ? { linkId: current.linkId } : {}),
+      updatedAt: new Date().toISOString(),
+    };
+    await writeAddress(session, restored);
+    return restored;
+  });
+}
+
+const defaultTrashRetentionDays = 30;
+
+export function getTrashRetentionDays() {
+  const configured = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isFinite(configured) && configured > 0
+    ? configured
+    : defaultTrashRetentionDays;
+}
+
+function getTrashExpiry(item: TrashItem) {
+  const expiry = new Date(item.deletedAt);
+  expiry.setUTCDate(expiry.getUTCDate() + getTrashRetentionDays());
+  return expiry.toISOString();
+}
+
+/**
+ * Permanently removes trash items past the retention period, including their
+ * upload files.
+ */
+export async function purgeExpiredTrash(now = new Date()) {
+  const expired = await recordMutation("trash.purge", async (session) => {
+    const items = await session.list("trash");
+    const due = items.filter((item) => getTrashExpiry(item) <= now.toISOString());
+    for (const item of due) {
+      await session.remove("trash", item.id);
+    }
+    return due;
+  });
+  await deleteUploadFiles(expired.flatMap((item) => item.documents));
+}
+
+/** Lists a profile's trash, newest first, after purging expired items. */
+export async function listTrash(profileId: string) {
+  await purgeExpiredTrash();
+  const items = await getRepository().read((session) =>
+    session.list("trash", { profileId }),
+  );
+  return items
+    .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+    .map((item) => ({ ...item, expiresAt: getTrashExpiry(item) }));
+}
+
+/**
+ * Puts a trashed address back together with the documents it was deleted
+ * with, or a trashed document back on its address. Throws when a document's
+ * address is not there to take it.
+ */
+export function restoreTrashItem(id: string) {
+  return recordMutation("trash.restore", async (session) => {
+    const item = await session.get("trash", id);
+    if (!item) {
+      return null;
+    }
+    if (item.address) {
+      const { linkId, ...address } = item.address;
+      // Links are released when the other copies lose their partner, so
+      // only keep the link if a linked address is still there.
+      const linked =
+        linkId &&
+        (await session.list("addresses")).some((other) => other.linkId === linkId);
+      await session.put("addresses", linked ? { ...address, linkId } : address);
+    } else if (!(await session.get("addresses", item.addressId))) {
+      throw new Error("Restore the document's address first.");
+    }
+    for (const doc of item.documents) {
+      await session.put("documents", doc);
+    }
+    await session.remove("trash", id);
+    return item;
+  });
+}
+
+export function getTrashItem(id: string) {
+  return getRepository().read((session) => session.get("trash", id));
+}
+
+/** Permanently deletes a trash item and its upload files. */
+export async function purgeTrashItem(id: string) {
+  const item = await recordMutation("trash.purge", async (session) => {
+    const found = await session.get("trash", id);
+    if (found) {
+      await session.remove("trash", id);
+    }
+    return found;
+  });
+  if (!item) {
+    return null;
+  }
+  await deleteUploadFiles(item.documents);
+  return item;
 }
@@ -0,0 +1,49 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { sessionCookieName } from "@/lib/session";
+import { isEncryptionEnabled, isUnlocked } from "@/lib/encryption";
+
+/**
+ * First gate for every page and API call. While the store is encrypted and
+ * locked only the encryption routes and the unlock page work. After that a
+ * session cookie is required everywhere except the login flow and share
+ * links; route handlers then check that the session is real and owns what it
+ * asks for.
+ */
+export function proxy(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const isApi = pathname.startsWith("/api/");
+  if (pathname.startsWith("/api/encryption")) {
+    return NextResponse.next();
+  }
+
+  if (isEncryptionEnabled() && !isUnlocked()) {
+    if (isApi) {
+      return NextResponse.json(
+        { error: "The store is locked. Unlock it with your passphrase first.", locked: true },
+        { status: 423 },
+      );
+    }
+    return pathname === "/"
+      ? NextResponse.next()
+      : NextResponse.redirect(new URL("/", request.url));
+  }
+
+  // Share links carry their own signed token instead of a session.
+  if (
+    pathname === "/login" ||
+    pathname.startsWith("/api/auth/") ||
+    pathname.startsWith("/api/share/")
+  ) {
+    return NextResponse.next();
+  }
+  if (!request.cookies.has(sessionCookieName)) {
+    return isApi
+      ? NextResponse.json({ error: "Please sign in." }, { status: 401 })
+      : NextResponse.redirect(new URL("/login", request.url));
+  }
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ["/", "/login", "/api/:path*"],
+};